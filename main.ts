@@ -1,27 +1,184 @@
 import {
   App,
   Editor,
+  getAllTags,
   MarkdownView,
   Modal,
+  normalizePath,
   Notice,
+  parseYaml,
   Plugin,
   PluginSettingTab,
   Setting,
+  stringifyYaml,
   requestUrl,
+  RequestUrlResponse,
+  TextComponent,
   TFile,
+  TFolder,
 } from 'obsidian';
 
 // ==================== Interfaces ====================
 interface StudentActivityPluginSettings {
-  apiProvider: 'openai' | 'claude' | 'gemini' | 'grok';
-  apiKey: string;
+  apiProvider: string;
   targetCharCount: number;
   outputFolder: string;
   modelId: string;
+  customBaseUrl: string;
+  concurrency: number;
+  requestsPerMinute: number;
+  maxRetries: number;
+  maxByteCount: number;
+  maxLengthRevisions: number;
+  reviewBeforeSave: boolean;
+  pseudonymize: boolean;
+  auditLog: boolean;
+  presetFolder: string;
+  defaultPresetId: string;
+  aggregateByStudent: boolean;
+  aggregateBySubject: boolean;
+  roster: RosterStudent[];
+  confirmCostEstimate: boolean;
+  usageLedger: UsageLedgerEntry[];
+  modelCache: Record<string, ModelCache>;
+  fallbackModels: FallbackModel[];
+  streaming: boolean;
+  candidateCount: number;
+  autoRankCandidates: boolean;
+}
+
+interface ModelOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * 제공자의 모델 목록 API에서 가져온 모델 (제공자별로 설정에 보관)
+ */
+interface ModelCache {
+  fetchedAt: string;
+  models: ModelOption[];
+}
+
+/**
+ * 선택한 모델이 실패하면 순서대로 대신 쓸 제공자와 모델
+ */
+interface FallbackModel {
+  provider: string;
+  modelId: string;
+}
+
+interface ProviderConfig {
+  apiKey: string;
+  modelId: string;
+  baseUrl: string;
+}
+
+interface CompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  temperature?: number;
+}
+
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * AI 응답 (제공자가 사용량을 알려주지 않으면 usage는 null)
+ */
+interface CompletionResponse {
+  text: string;
+  usage: TokenUsage | null;
+}
+
+/**
+ * 모델 가격 (USD, 100만 토큰당)
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 월별·제공자별 누적 사용량
+ */
+interface UsageLedgerEntry {
+  month: string;
+  provider: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/**
+ * 한 번의 일괄 변환에서 쓴 사용량 (가격을 모르는 모델이 섞이면 cost는 null)
+ */
+interface UsageTally extends TokenUsage {
+  cost: number | null;
+}
+
+interface UsageEstimate {
+  requests: number;
+  requestsPerStudent: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null;
+}
+
+/**
+ * AI 제공자 정의 - registerProvider()로 등록하면 설정 화면과 변환 로직에 자동 반영
+ */
+interface AIProvider {
+  id: string;
+  label: string;
+  vendor: string;
+  keyPlaceholder: string;
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  defaultBaseUrl?: string;
+  models: ModelOption[];
+  defaultModel: string;
+  complete(config: ProviderConfig, request: CompletionRequest): Promise<CompletionResponse>;
+  listModels?(config: ProviderConfig): Promise<ModelOption[]>;
+  // 받은 글 조각마다 onDelta 호출, signal로 멈추면 그때까지 받은 글을 돌려줌
+  stream?(
+    config: ProviderConfig,
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+    signal: AbortSignal
+  ): Promise<CompletionResponse>;
+}
+
+/**
+ * 요청을 보낼 제공자와 그 설정 (선택한 모델 또는 대체 모델 하나)
+ */
+interface ProviderTarget {
+  provider: AIProvider;
+  config: ProviderConfig;
+}
+
+interface ModelSender {
+  target: ProviderTarget;
+  send: (request: CompletionRequest) => Promise<string>;
+}
+
+/**
+ * 스트리밍으로 받은 글을 보여줄 곳
+ * - onText: 지금까지 받은 글 전체
+ * - onStop: 응답을 멈추는 함수 (요청이 끝나면 null)
+ * - maxChars: 이 글자 수를 넘으면 자동으로 멈춤 (끝없이 길어지는 응답 방지)
+ */
+interface StreamHandlers {
+  onText: (text: string) => void;
+  onStop?: (stop: (() => void) | null) => void;
+  maxChars?: number;
 }
 
 // ==================== Model Lists (Updated: 2025-12-14) ====================
-const MODEL_OPTIONS: Record<string, { id: string; name: string }[]> = {
+const MODEL_OPTIONS: Record<string, ModelOption[]> = {
   openai: [
     // GPT-5 Series (Reasoning Models)
     { id: 'gpt-5', name: 'GPT-5 (Reasoning)' },
@@ -87,10 +244,47 @@ const DEFAULT_MODELS: Record<string, string> = {
   grok: 'grok-4-1-fast',
 };
 
+// 공개된 표준 요금 (USD, 100만 토큰당) - 목록에 없는 모델은 비용을 계산하지 않음
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-sonnet-4-5-20250929': { input: 3, output: 15 },
+  'claude-opus-4-1-20250805': { input: 15, output: 75 },
+  'claude-opus-4-20250514': { input: 15, output: 75 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-haiku-4-5-20251001': { input: 1, output: 5 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'grok-4-0709': { input: 3, output: 15 },
+  'grok-4-1-fast': { input: 0.2, output: 0.5 },
+  'grok-4-1-fast-non-reasoning': { input: 0.2, output: 0.5 },
+  'grok-3': { input: 3, output: 15 },
+  'grok-3-mini': { input: 0.3, output: 0.5 },
+  'grok-code-fast-1': { input: 0.2, output: 1.5 },
+  'grok-2-vision-1212': { input: 2, output: 10 },
+};
+
 interface StudentActivity {
   studentId: string;
   studentName: string;
   activityContent: string;
+  subject?: string;
+  activityCount?: number;
 }
 
 interface ObservationRecord {
@@ -100,14 +294,202 @@ interface ObservationRecord {
   observation: string;
   charCount: number;
   byteCount: number;
+  lengthIssue?: string;
+  subject?: string;
+  activityCount?: number;
+  history?: RecordVersion[];
+  provider?: string;
+  model?: string;
+  candidates?: RecordCandidate[];
+}
+
+/**
+ * 교사관찰기록 한 학생의 버전 (생성, 다시 생성, 직접 수정, 복원)
+ */
+type RecordVersionSource = 'generated' | 'regenerated' | 'edited' | 'restored';
+
+interface RecordVersion {
+  observation: string;
+  source: RecordVersionSource;
+  createdAt: string;
+  provider?: string;
+  model?: string;
+  presetId?: string;
+  instruction?: string;
+}
+
+/**
+ * 한 학생에 대해 함께 생성한 후보 (검토 화면에서 고르거나 일부를 가져다 씀)
+ * - score는 낮을수록 목표 분량에 가깝고 위반이 적음
+ */
+interface RecordCandidate {
+  label: string;
+  temperature: number;
+  score: number;
+  record: ObservationRecord;
+}
+
+/**
+ * 결과 노트에 함께 저장하는 변환 데이터 (노트를 다시 읽어 재처리할 때 사용)
+ */
+interface ResultNoteData {
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  provider: string;
+  model: string;
+  presetId: string;
+  targetCharCount: number;
+  maxByteCount: number;
+  records: ObservationRecord[];
+}
+
+/**
+ * 프롬프트 프리셋 (기재 영역별 시스템 프롬프트, 사용자 프롬프트 템플릿, 기본 분량)
+ */
+interface PromptPreset {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  userPromptTemplate: string;
+  targetCharCount: number;
+  maxByteCount: number;
+  filePath?: string;
+}
+
+/**
+ * 한 번의 변환에 공통으로 쓰는 조건 (분량 기준과 프롬프트 프리셋)
+ */
+interface GenerationContext {
+  budget: LengthBudget;
+  preset: PromptPreset;
+}
+
+interface ConversionOptions {
+  targetCharCount: number;
+  maxByteCount: number;
+  presetId: string;
+}
+
+interface SpreadsheetRow {
+  cells: string[];
+  line: number;
+}
+
+/**
+ * 입력 표의 열 배치 (0부터 시작하는 열 번호, activity가 -1이면 학번/이름/과목을 뺀 나머지 열을 합침)
+ * - subject가 -1이면 과목(영역) 열 없음
+ */
+interface ColumnMapping {
+  studentId: number;
+  studentName: number;
+  activity: number;
+  subject: number;
+}
+
+interface SkippedRow {
+  line: number;
+  reason: string;
+  preview: string;
+}
+
+interface SpreadsheetParseResult {
+  activities: StudentActivity[];
+  skipped: SkippedRow[];
+  delimiter: string;
+  hasHeader: boolean;
+  header: string[] | null;
+  columnCount: number;
+  mapping: ColumnMapping;
+}
+
+/**
+ * 학급 명부의 학생 (학년/반/번호는 문자열 그대로 보관)
+ */
+interface RosterStudent {
+  grade: string;
+  classNo: string;
+  number: string;
+  studentId: string;
+  studentName: string;
+}
+
+/**
+ * 명부 대조 결과
+ * - unknown: 명부에 없는 학번
+ * - nameMismatch: 학번은 있으나 이름이 다름
+ * - duplicate: 같은 학번이 여러 번 입력됨
+ * - missing: 선택한 학급(또는 입력에 나온 학급) 학생 중 입력에 없는 학생
+ */
+interface RosterIssue {
+  type: 'unknown' | 'nameMismatch' | 'duplicate' | 'missing';
+  message: string;
+}
+
+/**
+ * 노트에서 학생활동을 가져올 조건 (날짜는 YYYY-MM-DD, 빈 값이면 거르지 않음)
+ */
+interface NoteImportFilter {
+  folder: string;
+  tag: string;
+  from: string;
+  to: string;
+  subject: string;
+}
+
+interface NoteImportResult {
+  activities: StudentActivity[];
+  noteCount: number;
+  skipped: { path: string; reason: string }[];
+}
+
+/**
+ * 분량 기준: 목표 글자 수(±10%)와 NEIS 최대 바이트 수(0이면 제한 없음)
+ */
+interface LengthBudget {
+  targetChars: number;
+  maxBytes: number;
+}
+
+/**
+ * 진행 중인 변환의 체크포인트 (records는 activities와 같은 순서, 미완료는 null)
+ */
+interface ConversionCheckpoint {
+  startedAt: string;
+  updatedAt: string;
+  targetCharCount: number;
+  maxByteCount: number;
+  presetId: string;
+  activities: StudentActivity[];
+  records: (ObservationRecord | null)[];
 }
 
 const DEFAULT_SETTINGS: StudentActivityPluginSettings = {
   apiProvider: 'openai',
-  apiKey: '',
   targetCharCount: 500,
   outputFolder: '',
   modelId: 'gpt-4o-mini',
+  customBaseUrl: '',
+  concurrency: 3,
+  requestsPerMinute: 30,
+  maxRetries: 3,
+  maxByteCount: 1500,
+  maxLengthRevisions: 2,
+  reviewBeforeSave: true,
+  pseudonymize: true,
+  auditLog: true,
+  presetFolder: '프롬프트 프리셋',
+  defaultPresetId: 'setuk',
+  aggregateByStudent: false,
+  aggregateBySubject: true,
+  roster: [],
+  confirmCostEstimate: true,
+  usageLedger: [],
+  modelCache: {},
+  fallbackModels: [],
+  streaming: true,
+  candidateCount: 1,
+  autoRankCandidates: true,
 };
 
 // ==================== Utility Functions ====================
@@ -147,42 +529,284 @@ function estimateBytes(charCount: number): number {
 }
 
 /**
- * TSV 데이터 파싱 (탭 구분)
+ * 분량 기준 검사 - 기준을 벗어나면 사유 문자열, 맞으면 null
+ */
+function checkLengthBudget(text: string, budget: LengthBudget): string | null {
+  const chars = countChars(text);
+  const bytes = countBytes(text);
+  const minChars = Math.round(budget.targetChars * 0.9);
+  const maxChars = Math.round(budget.targetChars * 1.1);
+
+  if (budget.maxBytes > 0 && bytes > budget.maxBytes) {
+    return `바이트 초과 (${bytes}/${budget.maxBytes})`;
+  }
+  if (chars > maxChars) {
+    return `글자 수 초과 (${chars}자, 기준 ${minChars}~${maxChars}자)`;
+  }
+  if (chars < minChars) {
+    return `글자 수 부족 (${chars}자, 기준 ${minChars}~${maxChars}자)`;
+  }
+  return null;
+}
+
+/**
+ * 구분자로 나뉜 표 데이터 파싱 (RFC 4180 방식 따옴표 처리)
+ * - 따옴표로 감싼 셀 안의 줄바꿈/구분자는 셀 내용으로 유지 ("" → ")
+ * - 셀 중간에서 시작하는 따옴표는 일반 문자로 취급
+ */
+function parseDelimited(text: string, delimiter: string): SpreadsheetRow[] {
+  const data = text.replace(/\r\n?/g, '\n');
+  const rows: SpreadsheetRow[] = [];
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < data.length; i++) {
+    const char = data.charAt(i);
+
+    if (inQuotes) {
+      if (char === '"') {
+        const next = data.charAt(i + 1);
+        if (next === '"') {
+          field += '"';
+          i++;
+        } else if (next === delimiter || next === '\n' || next === '') {
+          inQuotes = false;
+        } else {
+          // 닫는 따옴표 뒤에 내용이 이어지면 따옴표로 감싼 셀이 아님
+          field = `"${field}"`;
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(field);
+      field = '';
+    } else if (char === '\n') {
+      cells.push(field);
+      rows.push({ cells, line: rowLine });
+      cells = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || cells.length > 0) {
+    cells.push(field);
+    rows.push({ cells, line: rowLine });
+  }
+  return rows;
+}
+
+/**
+ * 구분자 자동 감지 (탭이 있으면 TSV, 없고 쉼표가 있으면 CSV)
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split('\n').find((line) => line.trim()) || '';
+  if (firstLine.includes('\t')) return '\t';
+  if (firstLine.includes(',')) return ',';
+  return '\t';
+}
+
+const HEADER_ALIASES: Record<keyof ColumnMapping, string[]> = {
+  studentId: ['학번', '학생번호', 'id'],
+  studentName: ['이름', '성명', '학생명', '학생이름', 'name'],
+  activity: ['활동내용', '학생활동', '학생활동기록', '활동기록', '활동', '내용', '기록'],
+  subject: ['과목', '과목명', '교과', '영역', 'subject'],
+};
+
+function findHeaderColumn(header: string[], aliases: string[]): number {
+  const normalized = header.map((cell) => cell.replace(/\s/g, '').toLowerCase());
+  for (const alias of aliases) {
+    const index = normalized.indexOf(alias);
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * 머리글 행인지 판단 (학번/이름/활동내용 중 두 개 이상이 열 이름으로 있으면 머리글)
+ */
+function isHeaderRow(cells: string[]): boolean {
+  const found = (Object.keys(HEADER_ALIASES) as (keyof typeof HEADER_ALIASES)[]).filter(
+    (key) => findHeaderColumn(cells, HEADER_ALIASES[key]) >= 0
+  );
+  return found.length >= 2;
+}
+
+/**
+ * 열 배치 자동 추정 (머리글이 있으면 열 이름으로, 없으면 학번/이름/나머지 열 순서)
+ */
+function guessColumnMapping(rows: SpreadsheetRow[], hasHeader: boolean): ColumnMapping {
+  const mapping: ColumnMapping = { studentId: 0, studentName: 1, activity: -1, subject: -1 };
+  if (!hasHeader || rows.length === 0) return mapping;
+
+  const header = rows[0].cells;
+  const studentId = findHeaderColumn(header, HEADER_ALIASES.studentId);
+  const studentName = findHeaderColumn(header, HEADER_ALIASES.studentName);
+  const activity = findHeaderColumn(header, HEADER_ALIASES.activity);
+  if (studentId >= 0) mapping.studentId = studentId;
+  if (studentName >= 0) mapping.studentName = studentName;
+  if (activity >= 0) mapping.activity = activity;
+  mapping.subject = findHeaderColumn(header, HEADER_ALIASES.subject);
+  return mapping;
+}
+
+/**
+ * 스프레드시트 데이터 파싱 (TSV/CSV, 머리글, 열 배치 지정)
+ * - 학번/이름/활동내용이 비어 있는 행은 건너뛰고 사유를 skipped에 기록
  */
-function parseTSV(data: string): StudentActivity[] {
-  const lines = data.trim().split('\n');
+function parseSpreadsheet(
+  data: string,
+  options: { delimiter?: string; hasHeader?: boolean; mapping?: ColumnMapping } = {}
+): SpreadsheetParseResult {
+  const delimiter = options.delimiter || detectDelimiter(data);
+  const rows = parseDelimited(data.trim(), delimiter).filter((row) => row.cells.some((cell) => cell.trim()));
+  const hasHeader = options.hasHeader ?? (rows.length > 0 && isHeaderRow(rows[0].cells));
+  const mapping = options.mapping || guessColumnMapping(rows, hasHeader);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.cells.length), 0);
+
   const activities: StudentActivity[] = [];
+  const skipped: SkippedRow[] = [];
+
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const cell = (index: number) => (row.cells[index] || '').trim();
+    const activityContent =
+      mapping.activity >= 0
+        ? cell(mapping.activity)
+        : row.cells
+            .filter(
+              (_, index) => index !== mapping.studentId && index !== mapping.studentName && index !== mapping.subject
+            )
+            .map((value) => value.trim())
+            .filter((value) => value)
+            .join(' ');
+
+    const missing: string[] = [];
+    if (!cell(mapping.studentId)) missing.push('학번');
+    if (!cell(mapping.studentName)) missing.push('이름');
+    if (!activityContent) missing.push('활동내용');
+
+    if (missing.length > 0) {
+      skipped.push({ line: row.line, reason: `${missing.join('/')} 없음`, preview: row.cells.join(' ').slice(0, 30) });
+      continue;
+    }
 
-  for (const line of lines) {
-    const parts = line.split('\t');
-    if (parts.length >= 3) {
-      activities.push({
-        studentId: parts[0].trim(),
-        studentName: parts[1].trim(),
-        activityContent: parts.slice(2).join(' ').trim(),
-      });
+    const activity: StudentActivity = {
+      studentId: cell(mapping.studentId),
+      studentName: cell(mapping.studentName),
+      activityContent,
+    };
+    if (mapping.subject >= 0 && cell(mapping.subject)) {
+      activity.subject = cell(mapping.subject);
+    }
+    activities.push(activity);
+  }
+
+  return {
+    activities,
+    skipped,
+    delimiter,
+    hasHeader,
+    header: hasHeader && rows.length > 0 ? rows[0].cells.map((c) => c.trim()) : null,
+    columnCount,
+    mapping,
+  };
+}
+
+/**
+ * 한 학생의 여러 활동 행을 하나로 합침 (bySubject면 과목/영역별로 따로 합침)
+ * - 합친 활동내용은 "1) ... 2) ..." 형식으로 원래 활동을 모두 남김
+ */
+function aggregateActivities(activities: StudentActivity[], bySubject: boolean): StudentActivity[] {
+  const groups = new Map<string, StudentActivity[]>();
+  for (const activity of activities) {
+    const key = bySubject ? `${activity.studentId}\u0000${activity.subject || ''}` : activity.studentId;
+    const group = groups.get(key);
+    if (group) {
+      group.push(activity);
+    } else {
+      groups.set(key, [activity]);
     }
   }
 
-  return activities;
+  return Array.from(groups.values()).map((group) => {
+    if (group.length === 1) return group[0];
+    const subjects = Array.from(new Set(group.map((a) => a.subject).filter((subject) => subject)));
+    // 이미 합쳐진 활동("1) ... 2) ...")은 항목별로 풀어서 다시 번호를 매김
+    const items = group.flatMap((a) =>
+      a.activityCount && a.activityCount > 1
+        ? a.activityContent.split('\n').map((line) => line.replace(/^\d+\)\s*/, ''))
+        : [a.activityContent]
+    );
+    const aggregated: StudentActivity = {
+      studentId: group[0].studentId,
+      studentName: group[0].studentName,
+      activityContent: items.map((item, i) => `${i + 1}) ${item}`).join('\n'),
+      activityCount: items.length,
+    };
+    if (subjects.length > 0) {
+      aggregated.subject = subjects.join(', ');
+    }
+    return aggregated;
+  });
 }
 
 /**
  * 마크다운 테이블 생성 (학번, 성명, 학생활동기록, 교사관찰기록, 글자 수, 바이트 수)
  */
+const RESULT_TABLE_HEADER = '| 학번 | 성명 | 학생활동기록 | 교사관찰기록 | 글자 수 | 바이트 수 | 생성 모델 |';
+// 생성 모델 열이 없던 예전 결과 노트의 머리글
+const LEGACY_RESULT_TABLE_HEADER = '| 학번 | 성명 | 학생활동기록 | 교사관찰기록 | 글자 수 | 바이트 수 |';
+
+/**
+ * 표 셀 이스케이프 (줄바꿈은 <br>로 남겨 내보내기 때 되살림)
+ */
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function unescapeTableCell(text: string): string {
+  return text.replace(/<br\s*\/?>/gi, '\n');
+}
+
 function generateMarkdownTable(records: ObservationRecord[]): string {
-  let table = '| 학번 | 성명 | 학생활동기록 | 교사관찰기록 | 글자 수 | 바이트 수 |\n';
-  table += '|------|------|-------------|-------------|---------|----------|\n';
+  let table = `${RESULT_TABLE_HEADER}\n`;
+  table += '|------|------|-------------|-------------|---------|----------|----------|\n';
 
   for (const record of records) {
-    const escapedActivity = record.activityContent.replace(/\|/g, '\\|').replace(/\n/g, ' ');
-    const escapedObservation = record.observation.replace(/\|/g, '\\|').replace(/\n/g, ' ');
-    table += `| ${record.studentId} | ${record.studentName} | ${escapedActivity} | ${escapedObservation} | ${record.charCount} | ${record.byteCount} |\n`;
+    const escapedActivity = escapeTableCell(record.activityContent);
+    const escapedObservation = escapeTableCell(record.observation);
+    const byteCell = record.lengthIssue ? `⚠️ ${record.byteCount}` : `${record.byteCount}`;
+    const modelCell = escapeTableCell(formatRecordModel(record));
+    table += `| ${record.studentId} | ${record.studentName} | ${escapedActivity} | ${escapedObservation} | ${record.charCount} | ${byteCell} | ${modelCell} |\n`;
   }
 
   return table;
 }
 
+/**
+ * 기록을 만든 제공자와 모델 ("제공자/모델", 모르면 빈 값)
+ */
+function formatRecordModel(record: ObservationRecord): string {
+  return record.provider && record.model ? `${record.provider}/${record.model}` : '';
+}
+
+function parseRecordModel(cell: string): { provider: string; model: string } | null {
+  const slash = cell.indexOf('/');
+  if (slash <= 0 || slash === cell.length - 1) return null;
+  return { provider: cell.slice(0, slash), model: cell.slice(slash + 1) };
+}
+
 /**
  * 구글 스프레드시트용 TSV 데이터 생성 (탭 구분)
  */
@@ -199,788 +823,6463 @@ function generateTSVData(records: ObservationRecord[]): string {
   return tsv;
 }
 
-// ==================== AI Service ====================
-
-const SYSTEM_PROMPT = `당신은 학생을 깊이 이해하고 애정을 가지고 관찰하는 한국 고등학교 담임교사입니다.
-학생의 활동 내용을 바탕으로 교사 관찰 기록을 작성해주세요.
-
-[핵심 원칙]
-- 인공지능이 작성한 것이 아닌, 교사가 학생을 직접 관찰하고 애정을 담아 작성한 기록처럼 보여야 합니다
-- 학생의 강점, 노력, 성장 과정을 따뜻하게 서술합니다
-- 객관적 사실에 기반하되, 교사의 긍정적 관점을 담습니다
+/**
+ * 결과 노트의 통계 섹션 생성 (노트 끝까지 이어지는 영역)
+ */
+function generateStatisticsSection(records: ObservationRecord[]): string {
+  const lengthIssues = records.filter((r) => r.lengthIssue);
+  const violations = records
+    .map((record) => ({ record, violations: getRecordViolations(record) }))
+    .filter((item) => item.violations.length > 0);
+  const ungrounded = records
+    .map((record) => ({ record, claims: getUngroundedClaims(record) }))
+    .filter((item) => item.claims.length > 0);
 
-[문체 규칙]
-- 서술형 종결어미 사용: "~함", "~임", "~남", "~보임", "~드러냄"
-- 제목, 머리말, 학생 이름 포함 금지
-- 3인칭 관찰자 시점으로 작성
-- 한 문단으로 자연스럽게 이어지도록 작성
+  return `## 통계
 
-[내용 구성]
-1. 활동의 구체적 맥락과 참여 양상
-2. 학생이 보여준 역량이나 태도
-3. 활동을 통한 성장이나 발전 가능성
+| 항목 | 값 |
+|------|-----|
+| 총 인원 | ${records.length}명 |
+| 평균 글자 수 | ${Math.round(records.reduce((sum, r) => sum + r.charCount, 0) / records.length)}자 |
+| 평균 바이트 수 | ${Math.round(records.reduce((sum, r) => sum + r.byteCount, 0) / records.length)} 바이트 |
+| 분량 기준 미충족 | ${lengthIssues.length}명 |
+| 기재요령 위반 의심 | ${violations.length}명 |
+| 근거 확인 필요 | ${ungrounded.length}명 (${ungrounded.reduce((sum, item) => sum + item.claims.length, 0)}건) |
+${lengthIssues.length > 0 ? `
+## ⚠️ 분량 기준 미충족
 
-[피해야 할 표현]
-- AI, VR, AR 등 영문 약어 → 인공지능, 가상현실, 증강현실 사용
-- 과도한 수식어나 빈 칭찬
-- 모든 학생에게 적용 가능한 일반적인 표현
-- 기계적이거나 정형화된 문장 패턴
+자동 분량 조정 후에도 기준을 벗어난 기록입니다. NEIS 입력 전에 직접 확인해주세요.
 
-[좋은 예시 표현]
-- "탐구 과정에서 꼼꼼한 자료 조사와 논리적 분석력을 보여줌"
-- "모둠 활동 시 다양한 의견을 존중하며 협력적 태도로 참여함"
-- "스스로 문제를 발견하고 해결책을 모색하는 자기주도적 학습 역량을 갖춤"
+${lengthIssues.map((r) => `- ${r.studentId} ${r.studentName}: ${r.lengthIssue}`).join('\n')}
+` : ''}${violations.length > 0 ? `
+## ⚠️ 기재요령 점검
 
-[출력 형식]
-- 추가 설명이나 머리말 없이 교사관찰기록 본문만 출력
-- 자연스러운 한 문단으로 구성`;
+영문 표기, 학생 이름, 기재 금지 항목, 종결 어미, 특수문자를 규칙으로 점검한 결과입니다. 커맨드 팔레트의 '기재요령 위반 기록 고치기'로 해당 학생만 다시 생성할 수 있습니다.
 
-async function callOpenAI(
-  apiKey: string,
-  modelId: string,
-  activity: StudentActivity,
-  targetCharCount: number
-): Promise<string> {
-  const userPrompt = `[제약 조건]
-- 목표 글자 수: ${targetCharCount}자 (±10%)
+${violations.map((item) => `- ${item.record.studentId} ${item.record.studentName}: ${formatViolations(item.violations, true)}`).join('\n')}
+` : ''}${ungrounded.length > 0 ? `
+## ⚠️ 근거 확인 필요
 
-[입력]
-학번: ${activity.studentId}
-이름: ${activity.studentName}
-활동내용: ${activity.activityContent}
+활동내용에 없는 제목, 숫자, 역할, 고유명사가 들어간 기록입니다. AI가 지어낸 내용일 수 있으니 사실인지 확인하고 고쳐주세요.
 
-[출력]
-교사관찰기록만 출력 (추가 설명 없이)`;
+${ungrounded.map((item) => `- ${item.record.studentId} ${item.record.studentName}: ${formatClaims(item.claims, true)}`).join('\n')}
+` : ''}`;
+}
 
-  const response = await requestUrl({
-    url: 'https://api.openai.com/v1/chat/completions',
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: modelId,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt },
-      ],
-      max_tokens: 2000,
-      temperature: 0.7,
-    }),
-  });
+/**
+ * 마크다운 테이블 행을 셀 단위로 분리 (\| 로 이스케이프된 파이프는 셀 내용으로 취급)
+ */
+function splitTableRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed.charAt(i);
+    if (char === '\\' && trimmed.charAt(i + 1) === '|') {
+      current += '|';
+      i++;
+    } else if (char === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
 
-  if (response.status !== 200) {
-    throw new Error(`OpenAI API 오류: ${response.status}`);
+/**
+ * 결과 테이블 위치 찾기 (headerLine: 머리글 행, firstRow~endLine-1: 데이터 행)
+ */
+function findResultTable(lines: string[]): { headerLine: number; firstRow: number; endLine: number } | null {
+  const headerLine = lines.findIndex(
+    (line) => line.trim() === RESULT_TABLE_HEADER || line.trim() === LEGACY_RESULT_TABLE_HEADER
+  );
+  if (headerLine < 0) return null;
+
+  const firstRow = headerLine + 2;
+  let endLine = firstRow;
+  while (endLine < lines.length && lines[endLine].trim().startsWith('|')) {
+    endLine++;
   }
+  return { headerLine, firstRow, endLine };
+}
 
-  return response.json.choices[0].message.content.trim();
+/**
+ * 결과 노트 머리말의 분량 기준 읽기 (없으면 null)
+ */
+function parseResultBudget(content: string): LengthBudget | null {
+  const match = content.match(/^목표 분량: (\d+)자(?: \(최대 (\d+)바이트\))?$/m);
+  if (!match) return null;
+  return { targetChars: parseInt(match[1]), maxBytes: match[2] ? parseInt(match[2]) : 0 };
 }
 
-async function callClaude(
-  apiKey: string,
-  modelId: string,
-  activity: StudentActivity,
-  targetCharCount: number
-): Promise<string> {
-  const userPrompt = `[제약 조건]
-- 목표 글자 수: ${targetCharCount}자 (±10%)
+function parseResultPresetId(content: string): string | null {
+  const match = content.match(/^프롬프트 프리셋: .* \(([^()]+)\)$/m);
+  return match ? match[1] : null;
+}
 
-[입력]
-학번: ${activity.studentId}
-이름: ${activity.studentName}
-활동내용: ${activity.activityContent}
+function formatResultPreset(preset: PromptPreset): string {
+  return `프롬프트 프리셋: ${preset.name} (${preset.id})`;
+}
 
-[출력]
-교사관찰기록만 출력 (추가 설명 없이)`;
+function formatResultBudget(budget: LengthBudget): string {
+  return `목표 분량: ${budget.targetChars}자${budget.maxBytes > 0 ? ` (최대 ${budget.maxBytes}바이트)` : ''}`;
+}
 
-  const response = await requestUrl({
-    url: 'https://api.anthropic.com/v1/messages',
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: modelId || 'claude-3-5-sonnet-20241022',
-      max_tokens: 2000,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: userPrompt }],
-    }),
-  });
-
-  if (response.status !== 200) {
-    throw new Error(`Claude API 오류: ${response.status}`);
+/**
+ * 결과 노트의 테이블을 ObservationRecord 목록으로 복원
+ * - 셀 안 줄바꿈은 <br>로 저장되어 있으면 되살림
+ */
+function parseResultTable(content: string, budget: LengthBudget | null): ObservationRecord[] {
+  const lines = content.split('\n');
+  const table = findResultTable(lines);
+  if (!table) return [];
+
+  const records: ObservationRecord[] = [];
+  for (let i = table.firstRow; i < table.endLine; i++) {
+    const cells = splitTableRow(lines[i]).map(unescapeTableCell);
+    if (cells.length < 6) continue;
+
+    const record: ObservationRecord = {
+      studentId: cells[0],
+      studentName: cells[1],
+      activityContent: cells[2],
+      observation: cells[3],
+      charCount: countChars(cells[3]),
+      byteCount: countBytes(cells[3]),
+    };
+    if (isFailedRecord(record)) {
+      record.charCount = 0;
+      record.byteCount = 0;
+    } else if (budget) {
+      const lengthIssue = checkLengthBudget(record.observation, budget);
+      if (lengthIssue) record.lengthIssue = lengthIssue;
+    } else if (cells[5].startsWith('⚠️')) {
+      record.lengthIssue = '분량 기준 미충족';
+    }
+    const source = parseRecordModel(cells[6] || '');
+    if (source) {
+      record.provider = source.provider;
+      record.model = source.model;
+    }
+    records.push(record);
   }
+  return records;
+}
 
-  return response.json.content[0].text.trim();
+/**
+ * 커서 줄이 결과 테이블의 몇 번째 데이터 행인지 계산 (테이블 밖이면 null)
+ */
+function getResultRowIndex(content: string, line: number): number | null {
+  const table = findResultTable(content.split('\n'));
+  if (!table || line < table.firstRow || line >= table.endLine) return null;
+  return line - table.firstRow;
 }
 
-async function callGemini(
-  apiKey: string,
-  modelId: string,
-  activity: StudentActivity,
-  targetCharCount: number
-): Promise<string> {
-  const userPrompt = `${SYSTEM_PROMPT}
+const RESULT_DATA_LANGUAGE = 'student-activity-data';
+const RESULT_DATA_HEADING = '## 변환 데이터';
+const RESULT_DATA_VERSION = 1;
 
-[제약 조건]
-- 목표 글자 수: ${targetCharCount}자 (±10%)
+/**
+ * 결과 노트 끝의 변환 데이터 코드 블록 읽기 (없거나 깨졌으면 null)
+ */
+function parseResultData(content: string): ResultNoteData | null {
+  const match = content.match(new RegExp('```' + RESULT_DATA_LANGUAGE + '\\n([\\s\\S]*?)\\n```'));
+  if (!match) return null;
+  try {
+    const data = JSON.parse(match[1]) as ResultNoteData;
+    return Array.isArray(data.records) ? data : null;
+  } catch (error) {
+    console.error('Failed to read result data block:', error);
+    return null;
+  }
+}
 
-[입력]
-학번: ${activity.studentId}
-이름: ${activity.studentName}
-활동내용: ${activity.activityContent}
+function formatResultDataBlock(data: ResultNoteData): string {
+  // 고르지 않은 후보는 검토에서만 쓰므로 노트에 남기지 않음
+  // 기록 안의 백틱이 코드 블록을 닫지 않도록 JSON 이스케이프로 바꿈
+  const json = JSON.stringify({ ...data, records: data.records.map(stripCandidates) }, null, 2).replace(/`/g, '\\u0060');
+  return `
+${RESULT_DATA_HEADING}
 
-[출력]
-교사관찰기록만 출력 (추가 설명 없이)`;
+> 이 노트를 다시 읽어 내보내기, 다시 변환 등에 사용하는 데이터입니다. 직접 고치지 마세요.
 
-  const response = await requestUrl({
-    url: `https://generativelanguage.googleapis.com/v1beta/models/${modelId || 'gemini-1.5-flash'}:generateContent?key=${apiKey}`,
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [{ text: userPrompt }],
-        },
-      ],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 2000,
-      },
-    }),
+\`\`\`${RESULT_DATA_LANGUAGE}
+${json}
+\`\`\`
+`;
+}
+
+/**
+ * 결과 노트의 기록 복원
+ * - 행 목록과 본문은 결과 테이블을 기준으로 함 (노트에서 직접 고친 내용 반영)
+ * - 같은 학번의 변환 데이터가 있으면 과목, 합친 활동 수, 이력 같은 테이블에 없는 값을 채움
+ */
+function parseResultRecords(content: string, budget: LengthBudget | null): ObservationRecord[] {
+  const records = parseResultTable(content, budget);
+  const data = parseResultData(content);
+  if (!data) return records;
+
+  return records.map((record, index) => {
+    const stored =
+      data.records[index]?.studentId === record.studentId
+        ? data.records[index]
+        : data.records.find((r) => r.studentId === record.studentId);
+    if (!stored) return record;
+    const restored: ObservationRecord = { ...record };
+    if (stored.subject) restored.subject = stored.subject;
+    if (stored.activityCount) restored.activityCount = stored.activityCount;
+    if (stored.history) restored.history = stored.history;
+    if (!restored.provider && stored.provider && stored.model) {
+      restored.provider = stored.provider;
+      restored.model = stored.model;
+    }
+    // 노트에서 직접 고친 본문은 이력에 "직접 수정"으로 남김
+    return restored.history ? ensureCurrentVersion(restored) : restored;
   });
+}
+
+/**
+ * 결과 노트 전체를 구조화된 데이터로 읽기 (변환 데이터가 없는 예전 노트는 머리말과 테이블로 채움)
+ */
+function parseResultNote(content: string): ResultNoteData | null {
+  const data = parseResultData(content);
+  const budget = data
+    ? { targetChars: data.targetCharCount, maxBytes: data.maxByteCount }
+    : parseResultBudget(content);
+  const records = parseResultRecords(content, budget);
+  if (!data && records.length === 0) return null;
+
+  return {
+    version: RESULT_DATA_VERSION,
+    createdAt: data?.createdAt || '',
+    updatedAt: data?.updatedAt || '',
+    provider: data?.provider || '',
+    model: data?.model || '',
+    presetId: data?.presetId || parseResultPresetId(content) || '',
+    targetCharCount: budget?.targetChars ?? 0,
+    maxByteCount: budget?.maxBytes ?? 0,
+    records,
+  };
+}
 
-  if (response.status !== 200) {
-    throw new Error(`Gemini API 오류: ${response.status}`);
+/**
+ * 결과 노트의 테이블, 복사용 TSV, 통계, 변환 데이터를 새 기록으로 교체
+ */
+function updateResultNoteContent(content: string, records: ObservationRecord[]): string {
+  const note = parseResultNote(content);
+  const lines = content.split('\n');
+  const table = findResultTable(lines);
+  if (!table) return content;
+
+  const tableLines = generateMarkdownTable(records).trimEnd().split('\n');
+  lines.splice(table.headerLine, table.endLine - table.headerLine, ...tableLines);
+
+  const encodedTSV = Buffer.from(generateTSVData(records)).toString('base64');
+  let updated = lines.join('\n').replace(/data-tsv="[^"]*"/, `data-tsv="${encodedTSV}"`);
+
+  const statsIndex = updated.indexOf('\n## 통계\n');
+  if (statsIndex >= 0) {
+    const data = note ? { ...note, records, updatedAt: new Date().toISOString() } : null;
+    updated =
+      updated.slice(0, statsIndex + 1) +
+      generateStatisticsSection(records) +
+      generateSimilaritySection(records) +
+      (data ? formatResultDataBlock(data) : '');
   }
+  return updated;
+}
 
-  return response.json.candidates[0].content.parts[0].text.trim();
+/**
+ * 변환 실패 기록 생성 (결과 테이블에 실패 사유 표시)
+ */
+function createFailedRecord(activity: StudentActivity, error: unknown): ObservationRecord {
+  return {
+    studentId: activity.studentId,
+    studentName: activity.studentName,
+    activityContent: activity.activityContent,
+    observation: `[변환 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}]`,
+    charCount: 0,
+    byteCount: 0,
+    ...copyActivityExtras(activity),
+  };
 }
 
-async function callGrok(
-  apiKey: string,
-  modelId: string,
-  activity: StudentActivity,
-  targetCharCount: number
-): Promise<string> {
-  const userPrompt = `[제약 조건]
-- 목표 글자 수: ${targetCharCount}자 (±10%)
+/**
+ * 결과 기록에 남길 활동 정보 (과목, 합친 활동 수)
+ */
+function copyActivityExtras(activity: StudentActivity): { subject?: string; activityCount?: number } {
+  const extras: { subject?: string; activityCount?: number } = {};
+  if (activity.subject) extras.subject = activity.subject;
+  if (activity.activityCount) extras.activityCount = activity.activityCount;
+  return extras;
+}
 
-[입력]
-학번: ${activity.studentId}
-이름: ${activity.studentName}
-활동내용: ${activity.activityContent}
+function isFailedRecord(record: ObservationRecord): boolean {
+  return record.observation.startsWith('[변환 실패');
+}
 
-[출력]
-교사관찰기록만 출력 (추가 설명 없이)`;
+// ==================== Roster ====================
 
-  // Grok API는 OpenAI 호환 형식 사용
-  const response = await requestUrl({
-    url: 'https://api.x.ai/v1/chat/completions',
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: modelId || 'grok-3-fast',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userPrompt },
-      ],
-      max_tokens: 2000,
-      temperature: 0.7,
-    }),
-  });
+const ROSTER_ALIASES: Record<'grade' | 'classNo' | 'number', string[]> = {
+  grade: ['학년'],
+  classNo: ['반', '학급'],
+  number: ['번호', '번', '출석번호'],
+};
 
-  if (response.status !== 200) {
-    throw new Error(`Grok API 오류: ${response.status}`);
-  }
+function getRosterClassKey(student: RosterStudent): string {
+  return `${student.grade}학년 ${student.classNo}반`;
+}
 
-  return response.json.choices[0].message.content.trim();
+function getRosterClasses(roster: RosterStudent[]): string[] {
+  return Array.from(new Set(roster.map(getRosterClassKey)));
 }
 
-// ==================== Input Modal ====================
+/**
+ * 명부 데이터 파싱 (TSV/CSV)
+ * - 머리글이 있으면 학년/반/번호/학번/이름 열을 찾고, 없으면 그 순서(두 열이면 학번/이름)로 읽음
+ * - 학번이 없으면 학년+반(2자리)+번호(2자리)로, 학년/반/번호가 없으면 5자리 학번에서 채움
+ */
+function parseRoster(data: string): { students: RosterStudent[]; skipped: SkippedRow[] } {
+  const rows = parseDelimited(data.trim(), detectDelimiter(data)).filter((row) =>
+    row.cells.some((cell) => cell.trim())
+  );
+  const header = rows.length > 0 ? rows[0].cells : [];
+  const columns = {
+    grade: findHeaderColumn(header, ROSTER_ALIASES.grade),
+    classNo: findHeaderColumn(header, ROSTER_ALIASES.classNo),
+    number: findHeaderColumn(header, ROSTER_ALIASES.number),
+    studentId: findHeaderColumn(header, HEADER_ALIASES.studentId),
+    studentName: findHeaderColumn(header, HEADER_ALIASES.studentName),
+  };
+  const hasHeader = columns.studentName >= 0 && (columns.studentId >= 0 || columns.number >= 0);
+  if (!hasHeader) {
+    const twoColumns = header.length === 2;
+    columns.grade = twoColumns ? -1 : 0;
+    columns.classNo = twoColumns ? -1 : 1;
+    columns.number = twoColumns ? -1 : 2;
+    columns.studentId = twoColumns ? 0 : 3;
+    columns.studentName = twoColumns ? 1 : 4;
+  }
 
-class InputModal extends Modal {
-  plugin: StudentActivityPlugin;
-  inputData: string = '';
-  targetCharCount: number;
-  onSubmit: (data: string, charCount: number) => void;
+  const students: RosterStudent[] = [];
+  const skipped: SkippedRow[] = [];
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const cell = (index: number) => (index >= 0 ? (row.cells[index] || '').trim() : '');
+    const student: RosterStudent = {
+      grade: cell(columns.grade),
+      classNo: cell(columns.classNo),
+      number: cell(columns.number),
+      studentId: cell(columns.studentId),
+      studentName: cell(columns.studentName),
+    };
+    if (!student.studentId && student.grade && student.classNo && student.number) {
+      student.studentId = `${student.grade}${student.classNo.padStart(2, '0')}${student.number.padStart(2, '0')}`;
+    }
+    if (/^\d{5}$/.test(student.studentId)) {
+      student.grade = student.grade || student.studentId.slice(0, 1);
+      student.classNo = student.classNo || String(parseInt(student.studentId.slice(1, 3)));
+      student.number = student.number || String(parseInt(student.studentId.slice(3)));
+    }
 
-  constructor(
-    app: App,
-    plugin: StudentActivityPlugin,
-    onSubmit: (data: string, charCount: number) => void
-  ) {
-    super(app);
-    this.plugin = plugin;
-    this.targetCharCount = plugin.settings.targetCharCount;
-    this.onSubmit = onSubmit;
+    if (!student.studentId || !student.studentName) {
+      skipped.push({ line: row.line, reason: '학번/이름 없음', preview: row.cells.join(' ').slice(0, 30) });
+      continue;
+    }
+    students.push(student);
   }
+  return { students, skipped };
+}
 
-  onOpen() {
-    const { contentEl } = this;
-    contentEl.empty();
-    contentEl.addClass('student-activity-modal');
+/**
+ * 새 명부를 기존 명부에 합침 (새 명부에 있는 학급은 통째로 바꿈)
+ */
+function mergeRoster(roster: RosterStudent[], imported: RosterStudent[]): RosterStudent[] {
+  const replaced = new Set(imported.map(getRosterClassKey));
+  return roster
+    .filter((student) => !replaced.has(getRosterClassKey(student)))
+    .concat(imported)
+    .sort(
+      (a, b) =>
+        a.grade.localeCompare(b.grade, undefined, { numeric: true }) ||
+        a.classNo.localeCompare(b.classNo, undefined, { numeric: true }) ||
+        a.studentId.localeCompare(b.studentId, undefined, { numeric: true })
+    );
+}
 
-    contentEl.createEl('h2', { text: '학생활동 → 교사관찰기록 변환' });
+/**
+ * 입력한 학번/이름을 명부와 대조
+ * - classKey가 없으면 입력에 나온 학급을 기준으로 빠진 학생을 찾음
+ * - 학생별로 합치는 경우처럼 한 학생이 여러 행인 입력은 allowRepeats로 중복 경고를 끔
+ */
+function validateAgainstRoster(
+  activities: StudentActivity[],
+  roster: RosterStudent[],
+  classKey: string | null,
+  allowRepeats: boolean = false
+): RosterIssue[] {
+  const issues: RosterIssue[] = [];
+  const byId = new Map(roster.map((student) => [student.studentId, student]));
+  const seen = new Set<string>();
+  const classes = new Set<string>(classKey ? [classKey] : []);
+
+  for (const activity of activities) {
+    const student = byId.get(activity.studentId);
+    if (!student) {
+      issues.push({ type: 'unknown', message: `${activity.studentId} ${activity.studentName}: 명부에 없는 학번` });
+    } else {
+      if (!classKey) classes.add(getRosterClassKey(student));
+      if (student.studentName !== activity.studentName) {
+        issues.push({
+          type: 'nameMismatch',
+          message: `${activity.studentId} ${activity.studentName}: 명부 이름은 ${student.studentName}`,
+        });
+      }
+    }
+    if (seen.has(activity.studentId) && !allowRepeats) {
+      issues.push({ type: 'duplicate', message: `${activity.studentId} ${activity.studentName}: 중복 입력` });
+    }
+    seen.add(activity.studentId);
+  }
 
-    // 입력 안내
-    contentEl.createEl('p', {
-      text: '구글 스프레드시트에서 복사한 데이터를 붙여넣으세요. (학번 탭 이름 탭 활동내용)',
-      cls: 'student-activity-description',
-    });
+  for (const student of roster) {
+    if (classes.has(getRosterClassKey(student)) && !seen.has(student.studentId)) {
+      issues.push({ type: 'missing', message: `${student.studentId} ${student.studentName}: 입력에 없음` });
+    }
+  }
+  return issues;
+}
 
-    // 텍스트 영역
-    const textAreaContainer = contentEl.createDiv({ cls: 'student-activity-textarea-container' });
-    const textArea = textAreaContainer.createEl('textarea', {
-      cls: 'student-activity-textarea',
-      attr: { rows: '10', placeholder: '10101\t김철수\t프로젝트 활동에서 리더 역할을 맡아...\n10102\t이영희\t토론 수업에서 적극적으로 참여하여...' },
-    });
-    textArea.addEventListener('input', (e) => {
-      this.inputData = (e.target as HTMLTextAreaElement).value;
-      this.updatePreview();
-    });
+// ==================== Revision History ====================
 
-    // 미리보기 영역
-    const previewContainer = contentEl.createDiv({ cls: 'student-activity-preview' });
-    previewContainer.createEl('h4', { text: '입력 데이터 미리보기' });
-    const previewContent = previewContainer.createDiv({ cls: 'student-activity-preview-content' });
-    previewContent.setText('데이터를 입력하면 여기에 미리보기가 표시됩니다.');
+const RECORD_VERSION_LABELS: Record<RecordVersionSource, string> = {
+  generated: '생성',
+  regenerated: '다시 생성',
+  edited: '직접 수정',
+  restored: '복원',
+};
 
-    // 글자수 설정
-    const charCountContainer = contentEl.createDiv({ cls: 'student-activity-char-count' });
+function createRecordVersion(
+  observation: string,
+  source: RecordVersionSource,
+  details: Omit<RecordVersion, 'observation' | 'source' | 'createdAt'> = {}
+): RecordVersion {
+  return { observation, source, createdAt: new Date().toISOString(), ...details };
+}
 
-    new Setting(charCountContainer)
-      .setName('목표 글자 수')
-      .setDesc('생성될 교사관찰기록의 목표 글자 수를 설정합니다.')
-      .addText((text) => {
-        text
-          .setValue(String(this.targetCharCount))
-          .onChange((value) => {
-            const num = parseInt(value);
-            if (!isNaN(num) && num > 0) {
-              this.targetCharCount = num;
-              this.updateByteEstimate();
-            }
-          });
-        text.inputEl.type = 'number';
-        text.inputEl.min = '100';
-        text.inputEl.max = '2000';
-      });
+/**
+ * 현재 본문이 이력의 마지막 버전과 다르면 버전으로 남김
+ * - 이력이 없는 예전 기록은 현재 본문을 "생성" 버전으로, 이력과 다르면 "직접 수정" 버전으로 추가
+ */
+function ensureCurrentVersion(record: ObservationRecord): ObservationRecord {
+  if (isFailedRecord(record)) return record;
+  const history = record.history || [];
+  const last = history[history.length - 1];
+  // 결과 테이블에 쓰면서 바뀌는 앞뒤 공백과 줄바꿈 형식은 수정으로 보지 않음
+  const normalize = (text: string) => text.replace(/\r\n/g, '\n').trim();
+  if (last && normalize(last.observation) === normalize(record.observation)) return record;
+
+  const version = last
+    ? createRecordVersion(record.observation, 'edited')
+    : { observation: record.observation, source: 'generated' as RecordVersionSource, createdAt: '' };
+  return { ...record, history: [...history, version] };
+}
 
-    // 예상 바이트수 표시
-    const byteEstimateEl = charCountContainer.createDiv({ cls: 'student-activity-byte-estimate' });
-    byteEstimateEl.setText(`예상 바이트 수: ${estimateBytes(this.targetCharCount)} 바이트`);
+/**
+ * 다시 생성한 기록에 이전 기록의 이력을 이어 붙임
+ */
+function carryHistory(previous: ObservationRecord, next: ObservationRecord): ObservationRecord {
+  const before = ensureCurrentVersion(previous).history || [];
+  if (before.length === 0) return next;
+  const added = (next.history || []).map((version) =>
+    version.source === 'generated' ? { ...version, source: 'regenerated' as RecordVersionSource } : version
+  );
+  return { ...next, history: [...before, ...added] };
+}
 
-    // 버튼 컨테이너
-    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+/**
+ * 어절 단위 차이 계산 (최장 공통 부분열)
+ */
+function diffWords(before: string, after: string): { type: 'same' | 'added' | 'removed'; text: string }[] {
+  const a = before.split(/(\s+)/).filter((token) => token);
+  const b = after.split(/(\s+)/).filter((token) => token);
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
 
-    const cancelBtn = buttonContainer.createEl('button', {
-      text: '취소',
-      cls: 'student-activity-cancel-btn'
-    });
-    cancelBtn.addEventListener('click', () => {
-      this.close();
-    });
+  const parts: { type: 'same' | 'added' | 'removed'; text: string }[] = [];
+  const push = (type: 'same' | 'added' | 'removed', text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
 
-    const submitBtn = buttonContainer.createEl('button', {
-      text: '교사관찰기록 생성',
-      cls: 'mod-cta student-activity-submit-btn',
-    });
-    submitBtn.addEventListener('click', () => {
-      if (!this.inputData.trim()) {
-        new Notice('데이터를 입력해주세요.');
-        return;
-      }
-      const activities = parseTSV(this.inputData);
-      if (activities.length === 0) {
-        new Notice('유효한 데이터가 없습니다. 형식: 학번 [탭] 이름 [탭] 활동내용');
-        return;
-      }
-      this.onSubmit(this.inputData, this.targetCharCount);
-      this.close();
-    });
+// ==================== Note Import ====================
+
+const NOTE_DATE_ALIASES = ['날짜', '일자', 'date'];
+const DATED_ITEM_PATTERN = /^\[?(\d{4})[-./](\d{1,2})[-./](\d{1,2})\.?\]?\s*[:)\-]?\s*/;
+
+/**
+ * 프론트매터에서 별칭 중 처음 찾은 키의 값 (키는 공백/대소문자 무시)
+ */
+function findFrontmatterValue(frontmatter: Record<string, unknown> | undefined, aliases: string[]): string {
+  if (!frontmatter) return '';
+  for (const alias of aliases) {
+    const key = Object.keys(frontmatter).find((k) => k.replace(/\s/g, '').toLowerCase() === alias);
+    const value = key ? frontmatter[key] : undefined;
+    if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
   }
+  return '';
+}
 
-  updatePreview() {
-    const previewContent = this.contentEl.querySelector('.student-activity-preview-content');
-    if (!previewContent) return;
+/**
+ * 2025.3.5, 2025/03/05 같은 날짜를 YYYY-MM-DD로 맞춤
+ */
+function normalizeDate(value: string): string {
+  const match = value.trim().match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})/);
+  if (!match) return '';
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
 
-    const activities = parseTSV(this.inputData);
-    if (activities.length === 0) {
-      previewContent.setText('유효한 데이터가 없습니다. 형식: 학번 탭 이름 탭 활동내용');
-      return;
-    }
+function isDateInRange(date: string, filter: NoteImportFilter): boolean {
+  if (!filter.from && !filter.to) return true;
+  if (!date) return false;
+  return (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+}
 
-    let preview = `총 ${activities.length}명의 학생 데이터:\n\n`;
-    for (const activity of activities.slice(0, 5)) {
-      preview += `- ${activity.studentId} ${activity.studentName}: ${activity.activityContent.substring(0, 50)}...\n`;
-    }
-    if (activities.length > 5) {
-      preview += `\n... 외 ${activities.length - 5}명`;
-    }
+/**
+ * 학생 노트 하나를 학생활동으로 변환
+ * - 프론트매터: 학번, 이름, 과목(선택), 날짜(선택, 날짜 없는 항목에 적용)
+ * - 본문: 글머리 기호 항목을 활동으로 사용 ("- 2025-03-05 ..."처럼 날짜로 시작하면 기간으로 거름)
+ * - 글머리 기호가 없으면 제목을 뺀 본문 전체를 하나의 활동으로 사용
+ */
+function parseActivityNote(
+  body: string,
+  frontmatter: Record<string, unknown> | undefined,
+  filter: NoteImportFilter
+): { activity: StudentActivity | null; reason: string } {
+  const studentId = findFrontmatterValue(frontmatter, HEADER_ALIASES.studentId);
+  const studentName = findFrontmatterValue(frontmatter, HEADER_ALIASES.studentName);
+  if (!studentId || !studentName) {
+    return { activity: null, reason: '프론트매터에 학번/이름 없음' };
+  }
 
-    previewContent.setText(preview);
+  const subject = findFrontmatterValue(frontmatter, HEADER_ALIASES.subject);
+  if (filter.subject && subject.replace(/\s/g, '') !== filter.subject.replace(/\s/g, '')) {
+    return { activity: null, reason: '과목 다름' };
   }
 
-  updateByteEstimate() {
-    const byteEstimateEl = this.contentEl.querySelector('.student-activity-byte-estimate');
-    if (byteEstimateEl) {
-      byteEstimateEl.setText(`예상 바이트 수: ${estimateBytes(this.targetCharCount)} 바이트`);
-    }
+  const noteDate = normalizeDate(findFrontmatterValue(frontmatter, NOTE_DATE_ALIASES));
+  const content = body.replace(/^---\n[\s\S]*?\n---\n?/, '');
+  const bullets = content
+    .split('\n')
+    .map((line) => line.match(/^\s*[-*+]\s+(?:\[[ xX]\]\s+)?(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => match[1].trim());
+
+  let items: string[];
+  if (bullets.length > 0) {
+    items = bullets
+      .map((item) => {
+        const dated = item.match(DATED_ITEM_PATTERN);
+        const date = dated ? normalizeDate(`${dated[1]}-${dated[2]}-${dated[3]}`) : noteDate;
+        return { text: dated ? item.slice(dated[0].length).trim() : item, date };
+      })
+      .filter((item) => item.text && isDateInRange(item.date, filter))
+      .map((item) => item.text);
+  } else {
+    const text = content
+      .split('\n')
+      .filter((line) => !/^\s*#/.test(line))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    items = text && isDateInRange(noteDate, filter) ? [text] : [];
   }
 
-  onClose() {
-    const { contentEl } = this;
-    contentEl.empty();
+  if (items.length === 0) {
+    return { activity: null, reason: filter.from || filter.to ? '기간 안의 활동 없음' : '활동 내용 없음' };
   }
+
+  const activity: StudentActivity = {
+    studentId,
+    studentName,
+    activityContent: items.length === 1 ? items[0] : items.map((item, i) => `${i + 1}) ${item}`).join('\n'),
+  };
+  if (items.length > 1) activity.activityCount = items.length;
+  if (subject) activity.subject = subject;
+  return { activity, reason: '' };
 }
 
-// ==================== Progress Modal ====================
+// ==================== Export ====================
 
-class ProgressModal extends Modal {
-  progressText: HTMLElement | null = null;
-  progressBar: HTMLElement | null = null;
-  progressBarFill: HTMLElement | null = null;
-  progressPercentText: HTMLElement | null = null;
-  statusText: HTMLElement | null = null;
-  studentListContainer: HTMLElement | null = null;
-  currentIndex: number = 0;
-  totalCount: number = 0;
-  completedStudents: string[] = [];
-  previousStudentName: string = '';
+type ExportFormat = 'csv' | 'xlsx' | 'json';
 
-  constructor(app: App) {
-    super(app);
-  }
+const EXPORT_HEADER = ['학번', '성명', '학생활동기록', '교사관찰기록', '글자 수', '바이트 수'];
 
-  onOpen() {
-    const { contentEl } = this;
-    contentEl.empty();
-    contentEl.addClass('student-activity-progress-modal');
+function recordToRow(record: ObservationRecord): (string | number)[] {
+  return [
+    record.studentId,
+    record.studentName,
+    record.activityContent,
+    record.observation,
+    record.charCount,
+    record.byteCount,
+  ];
+}
 
-    // 헤더 영역
-    const headerDiv = contentEl.createDiv({ cls: 'progress-header' });
-    const iconSpan = headerDiv.createSpan({ cls: 'progress-icon' });
-    iconSpan.innerHTML = '✨';
-    headerDiv.createEl('h2', { text: '교사관찰기록 생성 중' });
+function isOverByteLimit(record: ObservationRecord, budget: LengthBudget): boolean {
+  return budget.maxBytes > 0 && record.byteCount > budget.maxBytes;
+}
 
-    // 현재 처리 중인 학생 정보 (강조)
-    this.progressText = contentEl.createEl('p', { cls: 'progress-text' });
-    this.progressText.setText('AI 변환 준비 중...');
+/**
+ * RFC 4180 CSV 생성 (셀 안 줄바꿈 유지, 엑셀에서 한글이 깨지지 않도록 BOM 포함)
+ */
+function generateCSV(records: ObservationRecord[]): string {
+  const quote = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [EXPORT_HEADER, ...records.map(recordToRow)].map((row) => row.map(quote).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
 
-    // 프로그레스 바 컨테이너 (원형 퍼센트 포함)
-    const progressWrapper = contentEl.createDiv({ cls: 'progress-wrapper' });
+function generateJSON(records: ObservationRecord[]): string {
+  return JSON.stringify(
+    records.map(({ history, ...record }) => record),
+    null,
+    2
+  );
+}
 
-    // 원형 프로그레스 표시
-    const circleContainer = progressWrapper.createDiv({ cls: 'progress-circle-container' });
-    this.progressPercentText = circleContainer.createDiv({ cls: 'progress-circle' });
-    this.progressPercentText.setText('0%');
+const CRC32_TABLE = (() => {
+  const table: number[] = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table.push(c >>> 0);
+  }
+  return table;
+})();
 
-    // 바형 프로그레스
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 무압축(STORED) ZIP 파일 생성 (XLSX 컨테이너용)
+ */
+function createZip(files: { name: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // 파일 이름 UTF-8
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const all = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(all.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of all) {
+    zip.set(chunk, position);
+    position += chunk.length;
+  }
+  return zip;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 엑셀(XLSX) 통합문서 생성
+ * - 열 너비 지정, 머리글 굵게, 긴 셀은 줄바꿈
+ * - 최대 바이트 수를 넘은 기록은 교사관찰기록과 바이트 수 셀을 붉게 표시
+ */
+function generateXLSX(records: ObservationRecord[], budget: LengthBudget): Uint8Array {
+  // 셀 서식 번호: 0 기본, 1 머리글, 2 줄바꿈, 3 한도 초과(줄바꿈), 4 한도 초과(숫자)
+  const columnWidths = [10, 10, 50, 70, 9, 10];
+  const columnName = (index: number) => String.fromCharCode(65 + index);
+
+  const cell = (ref: string, value: string | number, style: number) =>
+    typeof value === 'number'
+      ? `<c r="${ref}" s="${style}"><v>${value}</v></c>`
+      : `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+  const headerRow = `<row r="1">${EXPORT_HEADER.map((title, i) => cell(`${columnName(i)}1`, title, 1)).join('')}</row>`;
+  const dataRows = records.map((record, index) => {
+    const rowNumber = index + 2;
+    const over = isOverByteLimit(record, budget);
+    const cells = recordToRow(record).map((value, i) => {
+      let style = i === 2 || i === 3 ? 2 : 0;
+      if (over && i === 3) style = 3;
+      if (over && i === 5) style = 4;
+      return cell(`${columnName(i)}${rowNumber}`, value, style);
+    });
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+  });
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>
+<sheetData>${headerRow}${dataRows.join('')}</sheetData>
+</worksheet>`;
+
+  const styles = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="맑은 고딕"/></font><font><b/><sz val="11"/><name val="맑은 고딕"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFFFC7CE"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+<xf numFmtId="0" fontId="0" fillId="2" borderId="0" xfId="0" applyFill="1" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+<xf numFmtId="0" fontId="0" fillId="2" borderId="0" xfId="0" applyFill="1"/>
+</cellXfs>
+</styleSheet>`;
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="교사관찰기록" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: sheet },
+    { name: 'xl/styles.xml', content: styles },
+  ]);
+}
+
+// ==================== Privacy ====================
+
+// 활동내용 속 학번은 이보다 짧으면 바꾸지 않음 ("3학년", "12명" 같은 숫자와 구분할 수 없음)
+const MIN_MASKED_ID_LENGTH = 4;
+
+// 성을 뺀 이름 뒤에 올 수 있는 조사·호칭 ("민준이가", "하늘아" 등)
+const GIVEN_NAME_SUFFIX = '(?:이?(?:가|는|를|의|와|랑|도|만|에게|한테)|은|을|과|아|야|이|$|[^가-힣])';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 가명처리 - AI 제공자에게 보내기 전에 학번과 이름을 토큰으로 바꾸고, 응답은 로컬에서 되돌림
+ * - 배치 안 모든 학생의 이름을 활동내용에서도 찾아 바꿈 (다른 학생 이름 포함)
+ * - 학번은 앞뒤에 숫자가 붙지 않은 경우에만 바꿈
+ * - 세 글자 이상 이름은 성을 뺀 이름(예: 철수)도 [이름1] 토큰으로 바꾸되,
+ *   낱말 첫머리에 있고 뒤에 조사나 호칭만 붙은 경우에만 바꿈 ("하늘색"의 "하늘"은 그대로 둠)
+ */
+class Pseudonymizer {
+  idTokens: Map<string, string> = new Map();
+  nameTokens: Map<string, string> = new Map();
+  replacements: Map<string, string> = new Map();
+  restore: Map<string, string> = new Map();
+  pattern: RegExp | null = null;
+
+  constructor(activities: StudentActivity[]) {
+    const replacements = this.replacements;
+    const sources: { text: string; source: string }[] = [];
+
+    for (const activity of activities) {
+      const studentId = activity.studentId;
+      if (studentId && !this.idTokens.has(studentId)) {
+        const token = `[학번${this.idTokens.size + 1}]`;
+        this.idTokens.set(studentId, token);
+        this.restore.set(token, studentId);
+        if (studentId.length >= MIN_MASKED_ID_LENGTH) {
+          replacements.set(studentId, token);
+          sources.push({ text: studentId, source: `(?<!\\d)${escapeRegExp(studentId)}(?!\\d)` });
+        }
+      }
+      const name = activity.studentName.trim();
+      if (name && !this.nameTokens.has(name)) {
+        const index = this.nameTokens.size + 1;
+        const token = `[학생${index}]`;
+        this.nameTokens.set(name, token);
+        this.restore.set(token, name);
+        replacements.set(name, token);
+        sources.push({ text: name, source: escapeRegExp(name) });
+        if (name.length >= 3) {
+          const givenName = name.slice(1);
+          if (!replacements.has(givenName)) {
+            const givenToken = `[이름${index}]`;
+            this.restore.set(givenToken, givenName);
+            replacements.set(givenName, givenToken);
+            sources.push({
+              text: givenName,
+              source: `(?<![가-힣])${escapeRegExp(givenName)}(?=${GIVEN_NAME_SUFFIX})`,
+            });
+          }
+        }
+      }
+    }
+
+    // 긴 것부터 찾아야 "김철수"가 "철수"보다 먼저 바뀜
+    sources.sort((a, b) => b.text.length - a.text.length);
+    if (sources.length > 0) {
+      this.pattern = new RegExp(sources.map((s) => s.source).join('|'), 'g');
+    }
+  }
+
+  mask(text: string): string {
+    if (!this.pattern) return text;
+    return text.replace(this.pattern, (match) => this.replacements.get(match) || match);
+  }
+
+  unmask(text: string): string {
+    return text.replace(/\[(학번|학생|이름)\d+\]/g, (token) => this.restore.get(token) || token);
+  }
+
+  maskActivity(activity: StudentActivity): StudentActivity {
+    return {
+      ...activity,
+      studentId: this.idTokens.get(activity.studentId) || this.mask(activity.studentId),
+      studentName: this.nameTokens.get(activity.studentName.trim()) || this.mask(activity.studentName),
+      activityContent: this.mask(activity.activityContent),
+    };
+  }
+}
+
+// ==================== Key Store ====================
+
+const KEY_STORAGE_NAME = 'student-activity-api-keys';
+const KEY_DATABASE_NAME = 'student-activity-keystore';
+
+interface EncryptedKeys {
+  iv: string;
+  data: string;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 이 기기의 암호화 키 (내보낼 수 없는 AES-GCM 키로 만들어 IndexedDB에 보관)
+ */
+async function getDeviceKey(): Promise<CryptoKey> {
+  const open = indexedDB.open(KEY_DATABASE_NAME, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore('keys');
+  const db = await promisifyRequest(open);
+  try {
+    const existing = await promisifyRequest<CryptoKey | undefined>(
+      db.transaction('keys', 'readonly').objectStore('keys').get('device')
+    );
+    if (existing) return existing;
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await promisifyRequest(db.transaction('keys', 'readwrite').objectStore('keys').put(key, 'device'));
+    return key;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 제공자별 API 키 저장소
+ * - data.json이 아니라 이 기기의 볼트별 로컬 저장소에 암호화해서 보관
+ * - 볼트를 동기화하거나 공유해도 키는 따라가지 않으므로 기기마다 한 번씩 입력
+ */
+class KeyStore {
+  app: App;
+  keys: Record<string, string> = {};
+  deviceKey: CryptoKey | null = null;
+  write: Promise<void> = Promise.resolve();
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  async load(): Promise<void> {
+    const stored = this.app.loadLocalStorage(KEY_STORAGE_NAME) as EncryptedKeys | null;
+    if (!stored) return;
+    try {
+      const key = await this.getKey();
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+        key,
+        fromBase64(stored.data)
+      );
+      this.keys = JSON.parse(new TextDecoder().decode(plain));
+    } catch (error) {
+      console.error('Failed to decrypt API keys:', error);
+      new Notice('저장된 API 키를 읽을 수 없습니다. 설정에서 API 키를 다시 입력해주세요.');
+    }
+  }
+
+  get(providerId: string): string {
+    return this.keys[providerId] || '';
+  }
+
+  /**
+   * 키 저장 (입력할 때마다 호출되므로 쓰기가 겹치지 않도록 순서대로 저장)
+   * - 저장에 실패하면 거부된 Promise를 돌려주고, 다음 쓰기는 계속 진행
+   */
+  set(providerId: string, apiKey: string): Promise<void> {
+    if (apiKey) {
+      this.keys[providerId] = apiKey;
+    } else {
+      delete this.keys[providerId];
+    }
+    const write = this.write.then(() => this.persist());
+    this.write = write.catch(() => undefined);
+    return write;
+  }
+
+  async persist(): Promise<void> {
+    if (Object.keys(this.keys).length === 0) {
+      this.app.saveLocalStorage(KEY_STORAGE_NAME, null);
+      return;
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(JSON.stringify(this.keys))
+    );
+    const encrypted: EncryptedKeys = { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+    this.app.saveLocalStorage(KEY_STORAGE_NAME, encrypted);
+  }
+
+  async getKey(): Promise<CryptoKey> {
+    if (!this.deviceKey) {
+      this.deviceKey = await getDeviceKey();
+    }
+    return this.deviceKey;
+  }
+}
+
+// ==================== NEIS Compliance ====================
+
+/**
+ * 기재요령 위반 유형
+ * - abbreviation: 영문(로마자) 표기
+ * - studentName: 학생 본인 이름
+ * - prohibited: 기재 금지 항목 (대회, 기관명, 부모 직업 등)
+ * - ending: "~함/~임" 같은 명사형 종결이 아닌 문장
+ * - specialChar: NEIS에 입력하지 않는 특수문자
+ */
+type ComplianceRule = 'abbreviation' | 'studentName' | 'prohibited' | 'ending' | 'specialChar';
+
+interface ComplianceViolation {
+  rule: ComplianceRule;
+  text: string;
+  message: string;
+}
+
+const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+  abbreviation: '영문 표기',
+  studentName: '학생 이름',
+  prohibited: '기재 금지 항목',
+  ending: '종결 어미',
+  specialChar: '특수문자',
+};
+
+/**
+ * 기재 금지 항목 (학교생활기록부 기재요령 기준)
+ */
+const PROHIBITED_PATTERNS: { pattern: RegExp; message: string }[] = [
+  { pattern: /[가-힣]*(?:경시대회|경진대회|올림피아드|대회)/g, message: '대회명·대회 참가 및 수상 실적' },
+  { pattern: /[가-힣]{2,}(?:대학교|대학|학원|연구소|연구원|재단|협회|공사)/g, message: '기관·단체명' },
+  { pattern: /(?:아버지|어머니|부모님?|부친|모친)[가-힣\s]{0,8}(?:직업|직장|회사|근무|운영)/g, message: '부모(친인척)의 직업·사회경제적 지위' },
+  { pattern: /논문|특허|어학연수|해외\s?봉사|공인\s?어학/g, message: '논문·특허·어학시험·해외활동 실적' },
+];
+
+/**
+ * NEIS에 입력되지 않거나 기재요령에서 쓰지 않는 기호
+ * - 화살표, 도형(○●□■▶ 등), 원문자, ※, 기타 기호·딩뱃(★♥✓ 등), 사용자 정의 문자, 이모지
+ * - 느낌표, 물음표, 쌍점, 빗금 같은 일반 문장부호는 점검하지 않음
+ */
+const DISALLOWED_CHAR_PATTERN = /[\u203B\u2190-\u21FF\u2460-\u24FF\u25A0-\u27BF\u2B00-\u2BFF\u3200-\u32FF\uE000-\uF8FF\uD800-\uDBFF]/;
+
+/**
+ * 한글 음절의 받침이 ㅁ인지 확인 (~함, ~임, ~남, ~드러냄 같은 명사형 종결)
+ */
+function hasNominalEnding(sentence: string): boolean {
+  const last = sentence.replace(/[\s)'"’”]+$/, '').slice(-1);
+  const code = last.charCodeAt(0) - 0xac00;
+  return code >= 0 && code < 11172 && code % 28 === 16;
+}
+
+/**
+ * 생성된 교사관찰기록을 NEIS 기재요령 규칙으로 점검
+ */
+function checkCompliance(observation: string, studentName: string): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  const add = (rule: ComplianceRule, text: string, message: string) => {
+    if (!violations.some((v) => v.rule === rule && v.text === text)) {
+      violations.push({ rule, text, message });
+    }
+  };
+
+  for (const match of observation.match(/[A-Za-z][A-Za-z0-9&.-]*/g) || []) {
+    add('abbreviation', match.replace(/[.-]+$/, ''), '영문 대신 우리말로 풀어 씀');
+  }
+
+  // 성을 뺀 이름은 가명처리와 같이 낱말 첫머리에 조사만 붙은 경우만 ("하늘색"의 "하늘"은 이름이 아님)
+  const name = studentName.trim();
+  const givenName = name.length >= 3 ? name.slice(1) : '';
+  if (name.length >= 2 && observation.includes(name)) {
+    add('studentName', name, '학생 이름은 기재하지 않음');
+  } else if (
+    givenName.length >= 2 &&
+    new RegExp(`(?<![가-힣])${escapeRegExp(givenName)}(?=${GIVEN_NAME_SUFFIX})`).test(observation)
+  ) {
+    add('studentName', givenName, '학생 이름은 기재하지 않음');
+  }
+
+  for (const { pattern, message } of PROHIBITED_PATTERNS) {
+    for (const match of observation.match(pattern) || []) {
+      add('prohibited', match.trim(), message);
+    }
+  }
+
+  // 마침표 뒤에 공백이나 글 끝이 올 때만 문장을 나눔 ("3.5점", "1.2배"의 소수점은 문장 끝이 아님)
+  const sentences = observation
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+  for (const sentence of sentences) {
+    const body = sentence.replace(/[.!?]+$/, '');
+    if (body && !hasNominalEnding(body)) {
+      add('ending', sentence.length > 20 ? `…${sentence.slice(-20)}` : sentence, '"~함", "~임"처럼 명사형으로 끝맺음');
+    }
+  }
+
+  for (const char of Array.from(observation)) {
+    if (DISALLOWED_CHAR_PATTERN.test(char)) {
+      add('specialChar', char, 'NEIS에 입력하지 않는 특수문자');
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * 기록의 기재요령 위반 목록 (변환 실패 기록은 점검하지 않음)
+ */
+function getRecordViolations(record: ObservationRecord): ComplianceViolation[] {
+  return isFailedRecord(record) ? [] : checkCompliance(record.observation, record.studentName);
+}
+
+function formatViolations(violations: ComplianceViolation[], highlight: boolean = false): string {
+  return violations
+    .map((v) => `${COMPLIANCE_RULE_LABELS[v.rule]} ${highlight ? `==${v.text}==` : `"${v.text}"`}`)
+    .join(', ');
+}
+
+/**
+ * 위반 항목만 고쳐 달라는 추가 요청 문구
+ */
+function buildComplianceInstruction(violations: ComplianceViolation[]): string {
+  return `다음 NEIS 기재요령 위반을 고쳐서 다시 작성하세요.
+${violations.map((v) => `- ${COMPLIANCE_RULE_LABELS[v.rule]} "${v.text}": ${v.message}`).join('\n')}`;
+}
+
+// ==================== Grounding Check ====================
+
+/**
+ * 활동내용에 근거가 없는 사실 (AI가 지어냈을 수 있는 책 제목, 숫자, 역할 등)
+ */
+interface UngroundedClaim {
+  kind: '제목' | '숫자' | '역할' | '고유명사';
+  text: string;
+}
+
+const ROLE_WORDS = [
+  '부회장', '회장', '부반장', '반장', '부장', '차장', '조장', '모둠장', '팀장', '대표', '리더',
+  '사회자', '발표자', '기록자', '총무', '서기', '멘토', '멘티', '도우미', '부원', '기자',
+];
+
+const QUOTED_TITLE_PATTERN = /[『「《〈<]([^』」》〉>]+)[』」》〉>]|["“']([^"”']{2,})["”']/g;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+const PROPER_NOUN_PATTERN = /[가-힣A-Za-z0-9]{2,}(?:박물관|미술관|도서관|과학관|기념관|센터|대학교|연구소|재단|신문|방송)|[A-Za-z][A-Za-z0-9]+/g;
+const ROLE_PATTERN = new RegExp(`(${ROLE_WORDS.join('|')})(?!십|적)`, 'g');
+
+function normalizeForGrounding(text: string): string {
+  return text.replace(/[\s'"“”‘’『』「」《》〈〉<>]/g, '').toLowerCase();
+}
+
+/**
+ * 교사관찰기록에서 제목, 숫자, 역할, 고유명사를 뽑아 활동내용에 있는지 확인
+ */
+function checkGrounding(observation: string, activityContent: string): UngroundedClaim[] {
+  const source = normalizeForGrounding(activityContent);
+  const sourceNumbers = new Set(activityContent.match(NUMBER_PATTERN) || []);
+  const claims: UngroundedClaim[] = [];
+  const add = (kind: UngroundedClaim['kind'], text: string) => {
+    if (!claims.some((c) => c.kind === kind && c.text === text)) {
+      claims.push({ kind, text });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  QUOTED_TITLE_PATTERN.lastIndex = 0;
+  while ((match = QUOTED_TITLE_PATTERN.exec(observation)) !== null) {
+    const title = (match[1] || match[2]).trim();
+    if (title && !source.includes(normalizeForGrounding(title))) add('제목', title);
+  }
+
+  for (const number of observation.match(NUMBER_PATTERN) || []) {
+    if (!sourceNumbers.has(number)) add('숫자', number);
+  }
+
+  for (const role of observation.match(ROLE_PATTERN) || []) {
+    if (!source.includes(role)) add('역할', role);
+  }
+
+  for (const noun of observation.match(PROPER_NOUN_PATTERN) || []) {
+    if (!source.includes(normalizeForGrounding(noun))) add('고유명사', noun);
+  }
+
+  return claims;
+}
+
+/**
+ * 기록의 근거 없는 사실 목록 (변환 실패 기록은 확인하지 않음)
+ */
+function getUngroundedClaims(record: ObservationRecord): UngroundedClaim[] {
+  return isFailedRecord(record) ? [] : checkGrounding(record.observation, record.activityContent);
+}
+
+function formatClaims(claims: UngroundedClaim[], highlight: boolean = false): string {
+  return claims.map((c) => `${c.kind} ${highlight ? `==${c.text}==` : `"${c.text}"`}`).join(', ');
+}
+
+// ==================== Similarity ====================
+
+interface RepeatedPhrase {
+  phrase: string;
+  indexes: number[];
+}
+
+interface SimilarPair {
+  a: number;
+  b: number;
+  score: number;
+}
+
+/**
+ * 학생 간 중복 표현 분석 결과 (indexes는 records 배열 기준)
+ * - offenders: 다시 생성을 권하는 학생과 피해야 할 표현
+ */
+interface SimilarityReport {
+  phrases: RepeatedPhrase[];
+  pairs: SimilarPair[];
+  offenders: Map<number, string[]>;
+}
+
+const PHRASE_WORDS = 3;
+const SIMILAR_PAIR_THRESHOLD = 0.35;
+const MAX_REPORTED_PHRASES = 10;
+const MAX_REPORTED_PAIRS = 5;
+
+function tokenizeWords(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map((word) => word.replace(/[^가-힣A-Za-z0-9]/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * 공백을 뺀 글자 4-gram 집합 (어절이 조금 달라도 비슷한 문장을 잡기 위함)
+ */
+function charShingles(text: string): Set<string> {
+  const compact = text.replace(/[^가-힣A-Za-z0-9]/g, '');
+  const shingles = new Set<string>();
+  for (let i = 0; i + 4 <= compact.length; i++) {
+    shingles.add(compact.slice(i, i + 4));
+  }
+  return shingles;
+}
+
+function diceCoefficient(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((shingle) => {
+    if (b.has(shingle)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * 여러 학생이 함께 쓴 어절 3-gram을 찾아, 이어지는 부분은 하나의 표현으로 묶음
+ */
+function findRepeatedPhrases(texts: string[], minStudents: number): RepeatedPhrase[] {
+  const tokens = texts.map(tokenizeWords);
+  const gramOwners = new Map<string, Set<number>>();
+  tokens.forEach((words, index) => {
+    for (let i = 0; i + PHRASE_WORDS <= words.length; i++) {
+      const gram = words.slice(i, i + PHRASE_WORDS).join(' ');
+      if (!gramOwners.has(gram)) gramOwners.set(gram, new Set());
+      gramOwners.get(gram)!.add(index);
+    }
+  });
+
+  const phraseOwners = new Map<string, Set<number>>();
+  tokens.forEach((words, index) => {
+    let runStart = -1;
+    let runEnd = -1;
+    const flush = () => {
+      if (runStart < 0) return;
+      const phrase = words.slice(runStart, runEnd).join(' ');
+      if (!phraseOwners.has(phrase)) phraseOwners.set(phrase, new Set());
+      phraseOwners.get(phrase)!.add(index);
+      runStart = -1;
+    };
+    for (let i = 0; i + PHRASE_WORDS <= words.length; i++) {
+      const owners = gramOwners.get(words.slice(i, i + PHRASE_WORDS).join(' '))!;
+      if (owners.size >= minStudents) {
+        if (runStart < 0 || i > runEnd) {
+          flush();
+          runStart = i;
+        }
+        runEnd = i + PHRASE_WORDS;
+      }
+    }
+    flush();
+  });
+
+  // 긴 표현 안에 들어간 짧은 표현도 같은 학생이 쓴 것으로 계산
+  const phrases = Array.from(phraseOwners.keys());
+  return phrases
+    .map((phrase) => ({
+      phrase,
+      indexes: tokens
+        .map((words, index) => ({ text: ` ${words.join(' ')} `, index }))
+        .filter((item) => item.text.includes(` ${phrase} `))
+        .map((item) => item.index),
+    }))
+    .filter((item) => item.indexes.length >= minStudents)
+    .filter(
+      (item) =>
+        !phrases.some(
+          (other) =>
+            other !== item.phrase &&
+            other.includes(item.phrase) &&
+            phraseOwners.get(other)!.size >= item.indexes.length
+        )
+    )
+    .sort((a, b) => b.indexes.length - a.indexes.length || b.phrase.length - a.phrase.length);
+}
+
+/**
+ * 배치 안 학생 간 중복 표현과 유사한 기록 쌍 분석
+ * - 같은 표현을 쓴 학생 중 첫 학생은 두고 나머지를, 유사한 쌍에서는 뒤 학생을 다시 생성 대상으로 봄
+ */
+function analyzeSimilarity(records: ObservationRecord[]): SimilarityReport {
+  const indexes = records.map((record, index) => index).filter((index) => !isFailedRecord(records[index]));
+  const texts = indexes.map((index) => records[index].observation);
+  const minStudents = indexes.length >= 10 ? 3 : 2;
+
+  const phrases = findRepeatedPhrases(texts, minStudents).map((item) => ({
+    phrase: item.phrase,
+    indexes: item.indexes.map((i) => indexes[i]),
+  }));
+
+  const shingles = texts.map(charShingles);
+  const pairs: SimilarPair[] = [];
+  for (let i = 0; i < indexes.length; i++) {
+    for (let j = i + 1; j < indexes.length; j++) {
+      const score = diceCoefficient(shingles[i], shingles[j]);
+      if (score >= SIMILAR_PAIR_THRESHOLD) {
+        pairs.push({ a: indexes[i], b: indexes[j], score });
+      }
+    }
+  }
+  pairs.sort((x, y) => y.score - x.score);
+
+  const offenders = new Map<number, string[]>();
+  const addOffender = (index: number, phrase?: string) => {
+    const avoid = offenders.get(index) || [];
+    if (phrase && !avoid.includes(phrase)) avoid.push(phrase);
+    offenders.set(index, avoid);
+  };
+  for (const item of phrases) {
+    item.indexes.slice(1).forEach((index) => addOffender(index, item.phrase));
+  }
+  for (const pair of pairs) {
+    addOffender(pair.b);
+  }
+
+  return { phrases, pairs, offenders };
+}
+
+/**
+ * 결과 노트의 "중복 표현" 섹션
+ */
+function generateSimilaritySection(records: ObservationRecord[]): string {
+  const report = analyzeSimilarity(records);
+  if (report.phrases.length === 0 && report.pairs.length === 0) return '';
+
+  const student = (index: number) => `${records[index].studentId} ${records[index].studentName}`;
+  const phraseLines = report.phrases
+    .slice(0, MAX_REPORTED_PHRASES)
+    .map((item) => `| ${item.phrase} | ${item.indexes.length}명 | ${item.indexes.map(student).join(', ')} |`);
+  const pairLines = report.pairs
+    .slice(0, MAX_REPORTED_PAIRS)
+    .map((pair) => `| ${student(pair.a)} | ${student(pair.b)} | ${Math.round(pair.score * 100)}% |`);
+
+  return `
+## 중복 표현
+
+여러 학생의 기록에 같은 표현이 반복되면 점검 시 지적될 수 있습니다. 커맨드 팔레트의 '중복 표현 줄여 다시 생성'으로 아래 표현을 피하도록 해당 학생만 다시 생성할 수 있습니다. (다시 생성 대상 ${report.offenders.size}명)
+${phraseLines.length > 0 ? `
+### 반복되는 표현
+
+| 표현 | 학생 수 | 학생 |
+|------|--------|------|
+${phraseLines.join('\n')}
+` : ''}${pairLines.length > 0 ? `
+### 유사한 기록
+
+| 학생 | 학생 | 유사도 |
+|------|------|--------|
+${pairLines.join('\n')}
+` : ''}`;
+}
+
+/**
+ * 중복 표현을 피해 달라는 추가 요청 문구
+ */
+function buildSimilarityInstruction(phrases: string[]): string {
+  const avoid = phrases.length > 0 ? `\n${phrases.map((phrase) => `- "${phrase}"`).join('\n')}` : '';
+  return `다른 학생의 기록과 표현이 겹칩니다. 이 학생의 활동에서만 드러나는 구체적인 내용으로 문장을 새로 구성하세요.${avoid ? ` 다음 표현은 쓰지 마세요.${avoid}` : ''}`;
+}
+
+// ==================== Candidates ====================
+
+/**
+ * 후보마다 바꾸는 온도와 강조점 (후보 수가 더 많으면 처음부터 반복)
+ */
+const CANDIDATE_VARIANTS: { label: string; temperature: number; emphasis: string }[] = [
+  { label: '기본', temperature: 0.7, emphasis: '' },
+  { label: '과정 중심', temperature: 0.9, emphasis: '활동 과정에서 보인 구체적인 행동과 태도를 중심으로 서술하세요.' },
+  { label: '역량 중심', temperature: 0.9, emphasis: '활동에서 드러난 역량과 성장을 중심으로 서술하세요.' },
+  { label: '간결', temperature: 0.4, emphasis: '핵심만 간결하고 명료한 문장으로 서술하세요.' },
+  { label: '새로운 표현', temperature: 1.0, emphasis: '흔한 상투적 표현을 피하고 이 학생에게만 맞는 표현을 쓰세요.' },
+];
+
+const MAX_CANDIDATES = CANDIDATE_VARIANTS.length;
+
+/**
+ * 후보 점수 (낮을수록 좋음)
+ * - 목표 글자 수와의 차이 비율에 바이트 초과, 기재요령 위반, 근거 확인 필요 표현 수를 더함
+ */
+function scoreCandidate(record: ObservationRecord, budget: LengthBudget): number {
+  const lengthGap = budget.targetChars > 0 ? Math.abs(record.charCount - budget.targetChars) / budget.targetChars : 0;
+  const overBytes = budget.maxBytes > 0 && record.byteCount > budget.maxBytes ? 1 : 0;
+  return lengthGap + overBytes + getRecordViolations(record).length * 0.5 + getUngroundedClaims(record).length * 0.2;
+}
+
+/**
+ * 점수가 낮은 순으로 정렬한 새 배열 (점수가 같으면 생성 순서 유지)
+ */
+function rankCandidates(candidates: RecordCandidate[]): RecordCandidate[] {
+  return candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => a.candidate.score - b.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * 후보를 기록으로 선택 (다른 후보 목록은 검토가 끝날 때까지 유지)
+ */
+function selectCandidate(candidate: RecordCandidate, candidates: RecordCandidate[]): ObservationRecord {
+  return { ...candidate.record, candidates };
+}
+
+function stripCandidates(record: ObservationRecord): ObservationRecord {
+  if (!record.candidates) return record;
+  const { candidates, ...rest } = record;
+  return rest;
+}
+
+// ==================== AI Service ====================
+
+const SYSTEM_PROMPT = `당신은 학생을 깊이 이해하고 애정을 가지고 관찰하는 한국 고등학교 담임교사입니다.
+학생의 활동 내용을 바탕으로 교사 관찰 기록을 작성해주세요.
+
+[핵심 원칙]
+- 인공지능이 작성한 것이 아닌, 교사가 학생을 직접 관찰하고 애정을 담아 작성한 기록처럼 보여야 합니다
+- 학생의 강점, 노력, 성장 과정을 따뜻하게 서술합니다
+- 객관적 사실에 기반하되, 교사의 긍정적 관점을 담습니다
+
+[문체 규칙]
+- 서술형 종결어미 사용: "~함", "~임", "~남", "~보임", "~드러냄"
+- 제목, 머리말, 학생 이름 포함 금지
+- 3인칭 관찰자 시점으로 작성
+- 한 문단으로 자연스럽게 이어지도록 작성
+
+[내용 구성]
+1. 활동의 구체적 맥락과 참여 양상
+2. 학생이 보여준 역량이나 태도
+3. 활동을 통한 성장이나 발전 가능성
+
+[피해야 할 표현]
+- AI, VR, AR 등 영문 약어 → 인공지능, 가상현실, 증강현실 사용
+- 과도한 수식어나 빈 칭찬
+- 모든 학생에게 적용 가능한 일반적인 표현
+- 기계적이거나 정형화된 문장 패턴
+
+[좋은 예시 표현]
+- "탐구 과정에서 꼼꼼한 자료 조사와 논리적 분석력을 보여줌"
+- "모둠 활동 시 다양한 의견을 존중하며 협력적 태도로 참여함"
+- "스스로 문제를 발견하고 해결책을 모색하는 자기주도적 학습 역량을 갖춤"
+
+[출력 형식]
+- 추가 설명이나 머리말 없이 교사관찰기록 본문만 출력
+- 자연스러운 한 문단으로 구성`;
+
+// 목표 글자 수의 이 배수를 넘으면 끝없이 길어지는 응답으로 보고 스트리밍을 멈춤
+const RUNAWAY_LENGTH_RATIO = 2;
+
+function formatByteLimit(budget: LengthBudget): string {
+  if (budget.maxBytes <= 0) return '';
+  return `\n- 최대 바이트 수: ${budget.maxBytes}바이트 (한글 3바이트, 영문·숫자·공백 1바이트 기준, 절대 초과 금지)`;
+}
+
+/**
+ * 분량 조정 요청 프롬프트 (기준을 벗어난 결과를 줄이거나 늘림)
+ */
+function buildRevisionPrompt(activity: StudentActivity, observation: string, budget: LengthBudget): string {
+  const chars = countChars(observation);
+  const bytes = countBytes(observation);
+  const tooLong =
+    chars > Math.round(budget.targetChars * 1.1) || (budget.maxBytes > 0 && bytes > budget.maxBytes);
+
+  return `[수정 요청]
+아래 교사관찰기록의 분량이 기준에 맞지 않습니다. 내용과 문체는 그대로 유지하면서 분량만 ${tooLong ? '줄여' : '늘려'}주세요.
+${tooLong ? '- 덜 중요한 수식어와 중복 표현부터 줄일 것' : '- 활동내용에 있는 사실만 사용하고, 없는 사실을 새로 만들지 말 것'}
+
+[제약 조건]
+- 현재 분량: ${chars}자 / ${bytes}바이트
+- 목표 글자 수: ${budget.targetChars}자 (±10%)${formatByteLimit(budget)}
+
+[활동내용]
+${activity.activityContent}
+
+[교사관찰기록]
+${observation}
+
+[출력]
+수정된 교사관찰기록만 출력 (추가 설명 없이)`;
+}
+
+/**
+ * 분량 기준을 벗어난 결과를 최대 maxRevisions번 다시 요청하여 맞춤
+ * - 끝까지 맞지 않으면 바이트 기준을 지킨 것 중 목표에 가장 가까운 결과와 사유를 반환
+ */
+async function fitToLengthBudget(
+  systemPrompt: string,
+  activity: StudentActivity,
+  observation: string,
+  budget: LengthBudget,
+  maxRevisions: number,
+  send: (request: CompletionRequest) => Promise<string>,
+  onRevise?: (attempt: number) => void
+): Promise<{ observation: string; lengthIssue: string | null }> {
+  const score = (text: string) =>
+    (budget.maxBytes > 0 && countBytes(text) > budget.maxBytes ? 1000000 : 0) +
+    Math.abs(countChars(text) - budget.targetChars);
+
+  let best = observation;
+  let current = observation;
+
+  for (let attempt = 1; attempt <= maxRevisions && checkLengthBudget(current, budget) !== null; attempt++) {
+    onRevise?.(attempt);
+    current = await send({
+      systemPrompt,
+      userPrompt: buildRevisionPrompt(activity, current, budget),
+    });
+    if (score(current) < score(best)) {
+      best = current;
+    }
+  }
+
+  const result = checkLengthBudget(current, budget) === null ? current : best;
+  return { observation: result, lengthIssue: checkLengthBudget(result, budget) };
+}
+
+// ==================== Prompt Presets ====================
+
+const DEFAULT_USER_PROMPT_TEMPLATE = `[제약 조건]
+- 목표 글자 수: {{target}}자 (±10%)
+- 최대 바이트 수: {{maxBytes}}바이트 (한글 3바이트, 영문·숫자·공백 1바이트 기준, 절대 초과 금지)
+
+[입력]
+학번: {{studentId}}
+이름: {{studentName}}
+과목: {{subject}}
+활동내용: {{activity}}
+
+[출력]
+교사관찰기록만 출력 (추가 설명 없이)`;
+
+const BUILTIN_PRESETS: PromptPreset[] = [
+  {
+    id: 'setuk',
+    name: '교과 세부능력 및 특기사항 (세특)',
+    systemPrompt: SYSTEM_PROMPT,
+    userPromptTemplate: DEFAULT_USER_PROMPT_TEMPLATE,
+    targetCharCount: 500,
+    maxByteCount: 1500,
+  },
+  {
+    id: 'changche-autonomy',
+    name: '창의적 체험활동 - 자율활동',
+    systemPrompt: `${SYSTEM_PROMPT}
+
+[영역 안내]
+- 창의적 체험활동 자율활동 특기사항을 작성합니다
+- 학급·학교 행사, 자치활동에서 맡은 역할과 공동체 기여를 중심으로 서술합니다`,
+    userPromptTemplate: DEFAULT_USER_PROMPT_TEMPLATE,
+    targetCharCount: 500,
+    maxByteCount: 1500,
+  },
+  {
+    id: 'changche-club',
+    name: '창의적 체험활동 - 동아리활동',
+    systemPrompt: `${SYSTEM_PROMPT}
+
+[영역 안내]
+- 창의적 체험활동 동아리활동 특기사항을 작성합니다
+- 동아리에서의 탐구·제작 과정, 협업, 전공 관련 관심의 심화를 중심으로 서술합니다`,
+    userPromptTemplate: DEFAULT_USER_PROMPT_TEMPLATE,
+    targetCharCount: 500,
+    maxByteCount: 1500,
+  },
+  {
+    id: 'changche-career',
+    name: '창의적 체험활동 - 진로활동',
+    systemPrompt: `${SYSTEM_PROMPT}
+
+[영역 안내]
+- 창의적 체험활동 진로활동 특기사항을 작성합니다
+- 진로 탐색 과정, 관심 분야를 구체화한 계기와 노력을 중심으로 서술합니다`,
+    userPromptTemplate: DEFAULT_USER_PROMPT_TEMPLATE,
+    targetCharCount: 700,
+    maxByteCount: 2100,
+  },
+  {
+    id: 'haengteuk',
+    name: '행동특성 및 종합의견 (행특)',
+    systemPrompt: `${SYSTEM_PROMPT}
+
+[영역 안내]
+- 행동특성 및 종합의견을 작성합니다
+- 특정 교과 활동보다 학교생활 전반에서 드러난 인성, 생활태도, 대인관계를 종합적으로 서술합니다`,
+    userPromptTemplate: DEFAULT_USER_PROMPT_TEMPLATE,
+    targetCharCount: 500,
+    maxByteCount: 1500,
+  },
+];
+
+/**
+ * 템플릿 자리표시자 치환 ({{activity}}, {{target}}, {{maxBytes}}, {{subject}}, {{studentId}}, {{studentName}})
+ * - 값이 비어 있는 자리표시자가 들어 있는 줄은 통째로 뺌 (예: 과목 미입력, 바이트 제한 없음)
+ */
+function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .split('\n')
+    .filter((line) => {
+      const keys = line.match(/\{\{(\w+)\}\}/g) || [];
+      return keys.every((key) => values[key.slice(2, -2)] !== '');
+    })
+    .join('\n')
+    .replace(/\{\{(\w+)\}\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+/**
+ * 사용자 프롬프트 생성 (모든 제공자 공통)
+ */
+function buildUserPrompt(
+  preset: PromptPreset,
+  activity: StudentActivity,
+  budget: LengthBudget,
+  instruction?: string
+): string {
+  const prompt = renderPromptTemplate(preset.userPromptTemplate, {
+    activity: activity.activityContent,
+    target: String(budget.targetChars),
+    maxBytes: budget.maxBytes > 0 ? String(budget.maxBytes) : '',
+    subject: activity.subject || '',
+    studentId: activity.studentId,
+    studentName: activity.studentName,
+  });
+  const synthesis =
+    activity.activityCount && activity.activityCount > 1
+      ? `\n\n[종합 안내]\n위 ${activity.activityCount}개 활동을 하나씩 나열하지 말고, 활동 전반에서 드러난 역량과 성장을 중심으로 하나의 자연스러운 기록으로 종합하세요.`
+      : '';
+  return instruction ? `${prompt}${synthesis}\n\n[추가 요청]\n${instruction}` : `${prompt}${synthesis}`;
+}
+
+const PRESET_SYSTEM_HEADING = '## 시스템 프롬프트';
+const PRESET_USER_HEADING = '## 사용자 프롬프트';
+
+/**
+ * 프리셋 파일(마크다운) 읽기 - 프론트매터에 이름/분량, 본문에 두 프롬프트
+ * - 분량이 없으면 defaults 사용
+ */
+function parsePresetFile(content: string, fallbackId: string, defaults: LengthBudget): PromptPreset | null {
+  const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) return null;
+
+  const meta = parseYaml(match[1]) || {};
+  const body = match[2];
+  const systemStart = body.indexOf(PRESET_SYSTEM_HEADING);
+  const userStart = body.indexOf(PRESET_USER_HEADING);
+  if (systemStart < 0 || userStart < 0) return null;
+
+  const section = (start: number, heading: string, end: number) =>
+    body.slice(start + heading.length, end < 0 || end < start ? undefined : end).trim();
+
+  return {
+    id: String(meta.id || fallbackId),
+    name: String(meta.name || fallbackId),
+    systemPrompt: section(systemStart, PRESET_SYSTEM_HEADING, userStart),
+    userPromptTemplate: section(userStart, PRESET_USER_HEADING, systemStart),
+    targetCharCount: Number(meta.targetCharCount) || defaults.targetChars,
+    maxByteCount: meta.maxByteCount == null ? defaults.maxBytes : Number(meta.maxByteCount) || 0,
+  };
+}
+
+function serializePreset(preset: PromptPreset): string {
+  const meta = stringifyYaml({
+    id: preset.id,
+    name: preset.name,
+    targetCharCount: preset.targetCharCount,
+    maxByteCount: preset.maxByteCount,
+  });
+  return `---
+${meta.trim()}
+---
+
+${PRESET_SYSTEM_HEADING}
+
+${preset.systemPrompt}
+
+${PRESET_USER_HEADING}
+
+${preset.userPromptTemplate}
+`;
+}
+
+// ==================== AI Providers ====================
+
+/**
+ * AI API 오류 (HTTP 상태 코드와 Retry-After 대기 시간 포함)
+ * - target은 대체 모델을 거치며 생성할 때 실패한 모델 (오류 안내에 사용)
+ */
+class ProviderError extends Error {
+  status: number;
+  retryAfterMs: number | null;
+  detail: string;
+  target: ProviderTarget | null = null;
+
+  constructor(message: string, status: number, retryAfterMs: number | null = null, detail: string = '') {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.detail = detail;
+  }
+}
+
+/**
+ * Retry-After 헤더 해석 (초 단위 숫자 또는 HTTP 날짜)
+ */
+function parseRetryAfter(value: string | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+/**
+ * 오류 응답 본문 (OpenAI, Claude, Gemini 모두 error.message 형식, 일부 호환 서버는 error 문자열)
+ */
+interface ErrorResponseBody {
+  error?: string | { message?: unknown };
+}
+
+function extractErrorDetail(json: unknown): string {
+  if (!json || typeof json !== 'object') return '';
+  const error = (json as ErrorResponseBody).error;
+  if (typeof error === 'string') return error;
+  return typeof error?.message === 'string' ? error.message : '';
+}
+
+function getErrorDetail(response: RequestUrlResponse): string {
+  try {
+    return extractErrorDetail(response.json);
+  } catch {
+    return '';
+  }
+}
+
+function assertResponseOk(label: string, response: RequestUrlResponse): void {
+  if (response.status === 200) return;
+
+  const headerName = Object.keys(response.headers || {}).find((name) => name.toLowerCase() === 'retry-after');
+  throw new ProviderError(
+    `${label} API 오류: ${response.status}`,
+    response.status,
+    parseRetryAfter(headerName ? response.headers[headerName] : undefined),
+    getErrorDetail(response)
+  );
+}
+
+function formatTargetLabel(target: ProviderTarget): string {
+  return `${target.provider.vendor} · ${target.config.modelId}`;
+}
+
+/**
+ * API 키 오류인지 확인 (Gemini는 잘못된 키를 400으로 응답)
+ */
+function isAuthError(error: unknown): boolean {
+  if (!(error instanceof ProviderError)) return false;
+  return error.status === 401 || error.status === 403 || /api[ _-]?key/i.test(error.detail);
+}
+
+/**
+ * 제공자 오류를 원인별 안내로 바꿈 (인증, 사용 한도, 모델 없음, 서버 오류)
+ */
+function describeProviderError(error: unknown, modelId: string): string {
+  if (!(error instanceof ProviderError)) {
+    return `연결 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`;
+  }
+  const detail = error.detail ? ` (${error.detail})` : '';
+  if (isAuthError(error)) {
+    return `인증 실패: API 키가 올바른지 확인해주세요.${detail}`;
+  }
+  if (/quota|credit|billing|balance/i.test(error.detail)) {
+    return `사용 한도 초과 또는 잔액 부족: 요금제와 결제 정보를 확인해주세요.${detail}`;
+  }
+  if (error.status === 429) {
+    return `요청 한도 초과: 잠시 후 다시 시도해주세요.${detail}`;
+  }
+  if (error.status === 404 || /model/i.test(error.detail)) {
+    return `모델을 찾을 수 없습니다: ${modelId}${detail}`;
+  }
+  if (error.status >= 500) {
+    return `서버 오류 (${error.status}): 잠시 후 다시 시도해주세요.${detail}`;
+  }
+  return `${error.message}${detail}`;
+}
+
+const PROVIDERS: AIProvider[] = [];
+
+/**
+ * 제공자 등록 (설정 드롭다운과 변환 로직은 이 목록을 그대로 사용)
+ */
+function registerProvider(provider: AIProvider): void {
+  PROVIDERS.push(provider);
+}
+
+function getProvider(id: string): AIProvider | undefined {
+  return PROVIDERS.find((p) => p.id === id);
+}
+
+/**
+ * 모델 목록 API 호출 (GET)
+ */
+async function fetchModelList(label: string, url: string, headers: Record<string, string> = {}): Promise<unknown> {
+  const response = await requestUrl({ url, method: 'GET', headers, throw: false });
+  assertResponseOk(label, response);
+  return response.json;
+}
+
+/**
+ * 모델 목록 응답에서 배열 필드의 객체 항목만 추출 (형식이 다르면 빈 목록)
+ */
+function getModelEntries(json: unknown, field: string): Record<string, unknown>[] {
+  const list = json && typeof json === 'object' ? (json as Record<string, unknown>)[field] : undefined;
+  return Array.isArray(list) ? list.filter((entry) => entry && typeof entry === 'object') : [];
+}
+
+function getStringField(entry: Record<string, unknown>, field: string): string {
+  const value = entry[field];
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * OpenAI 호환 /models 응답에서 모델 ID 목록 추출
+ */
+async function listChatCompletionModels(label: string, url: string, apiKey: string): Promise<ModelOption[]> {
+  const json = await fetchModelList(label, url, apiKey ? { Authorization: `Bearer ${apiKey}` } : {});
+  return getModelEntries(json, 'data')
+    .map((model) => getStringField(model, 'id'))
+    .filter((id) => id)
+    .map((id) => ({ id, name: id }));
+}
+
+// 대화 생성에 쓸 수 없는 OpenAI 모델 (음성, 이미지, 임베딩 등)
+const NON_CHAT_MODEL_PATTERN = /audio|realtime|tts|transcribe|whisper|dall-e|image|embedding|moderation|search/;
+
+/**
+ * SSE 스트리밍 요청 (requestUrl은 응답을 한 번에만 돌려주므로 스트리밍에는 fetch 사용)
+ * - data: 줄마다 JSON을 onEvent로 넘김 (JSON이 아닌 줄은 건너뜀, 재시도하면 요청 비용만 다시 듦)
+ * - 중단 신호를 받으면 오류 없이 끝내고, 호출한 쪽은 그때까지 받은 글을 사용
+ */
+async function streamServerSentEvents<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal,
+  onEvent: (data: T) => void
+): Promise<void> {
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!response.ok) {
+      let detail = '';
+      try {
+        detail = extractErrorDetail(JSON.parse(await response.text()));
+      } catch {
+        // 본문이 JSON이 아니면 상태 코드만 알림
+      }
+      throw new ProviderError(
+        `${label} API 오류: ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after') || undefined),
+        detail
+      );
+    }
+    if (!response.body) {
+      throw new TypeError('스트리밍 응답을 읽을 수 없습니다.');
+    }
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+      let event: T;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        return;
+      }
+      onEvent(event);
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    // 마지막 줄바꿈 없이 끝난 이벤트 (사용량이 담긴 경우가 많음)
+    buffer += decoder.decode();
+    buffer.split(/\r?\n/).forEach(handleLine);
+  } catch (error) {
+    if (signal.aborted) return;
+    throw error;
+  }
+}
+
+// 온도를 지정하지 않은 요청에 쓰는 기본값 (Claude는 지정하지 않으면 API 기본값 사용)
+const DEFAULT_TEMPERATURE = 0.7;
+
+function buildChatCompletionsRequest(
+  apiKey: string,
+  modelId: string,
+  request: CompletionRequest
+): { headers: Record<string, string>; body: Record<string, unknown> } {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return {
+    headers,
+    body: {
+      model: modelId,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      max_tokens: 2000,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    },
+  };
+}
+
+/**
+ * 제공자 응답에서 읽는 필드 (사용량과 스트리밍 조각, 모두 없을 수 있음)
+ */
+interface ChatCompletionsUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionsChunk {
+  choices?: { delta?: { content?: string } }[];
+  usage?: ChatCompletionsUsage | null;
+}
+
+interface ClaudeStreamEvent {
+  type?: string;
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { text?: string };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
+interface GeminiStreamChunk {
+  candidates?: { content?: { parts?: { text?: string; thought?: boolean }[] } }[];
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+function parseChatCompletionsUsage(usage: ChatCompletionsUsage | null | undefined): TokenUsage | null {
+  return usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : null;
+}
+
+/**
+ * OpenAI 호환 Chat Completions 호출 (OpenAI, Grok, 로컬 서버 공통)
+ */
+async function callChatCompletions(
+  label: string,
+  url: string,
+  apiKey: string,
+  modelId: string,
+  request: CompletionRequest
+): Promise<CompletionResponse> {
+  const { headers, body } = buildChatCompletionsRequest(apiKey, modelId, request);
+  const response = await requestUrl({
+    url,
+    method: 'POST',
+    headers,
+    throw: false,
+    body: JSON.stringify(body),
+  });
+
+  assertResponseOk(label, response);
+
+  return {
+    text: response.json.choices[0].message.content.trim(),
+    usage: parseChatCompletionsUsage(response.json.usage),
+  };
+}
+
+/**
+ * OpenAI 호환 Chat Completions 스트리밍 (사용량은 마지막 조각에 포함되도록 요청)
+ * - 로컬 서버는 stream_options를 모를 수 있어 includeUsage로 선택
+ */
+async function streamChatCompletions(
+  label: string,
+  url: string,
+  apiKey: string,
+  modelId: string,
+  request: CompletionRequest,
+  onDelta: (delta: string) => void,
+  signal: AbortSignal,
+  includeUsage: boolean
+): Promise<CompletionResponse> {
+  const { headers, body } = buildChatCompletionsRequest(apiKey, modelId, request);
+  let text = '';
+  let usage: TokenUsage | null = null;
+  await streamServerSentEvents<ChatCompletionsChunk>(
+    label,
+    url,
+    headers,
+    { ...body, stream: true, ...(includeUsage ? { stream_options: { include_usage: true } } : {}) },
+    signal,
+    (data) => {
+      const delta = data.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      if (data.usage) usage = parseChatCompletionsUsage(data.usage);
+    }
+  );
+  return { text: text.trim(), usage };
+}
+
+registerProvider({
+  id: 'openai',
+  label: 'OpenAI (GPT)',
+  vendor: 'OpenAI',
+  keyPlaceholder: 'sk-...',
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  models: MODEL_OPTIONS.openai,
+  defaultModel: DEFAULT_MODELS.openai,
+  complete: (config, request) =>
+    callChatCompletions('OpenAI', 'https://api.openai.com/v1/chat/completions', config.apiKey, config.modelId, request),
+  stream: (config, request, onDelta, signal) =>
+    streamChatCompletions(
+      'OpenAI',
+      'https://api.openai.com/v1/chat/completions',
+      config.apiKey,
+      config.modelId,
+      request,
+      onDelta,
+      signal,
+      true
+    ),
+  listModels: async (config) =>
+    (await listChatCompletionModels('OpenAI', 'https://api.openai.com/v1/models', config.apiKey)).filter(
+      (model) => /^(gpt-|o\d|chatgpt-)/.test(model.id) && !NON_CHAT_MODEL_PATTERN.test(model.id)
+    ),
+});
+
+function buildClaudeBody(config: ProviderConfig, request: CompletionRequest): Record<string, unknown> {
+  return {
+    model: config.modelId,
+    max_tokens: 2000,
+    system: request.systemPrompt,
+    messages: [{ role: 'user', content: request.userPrompt }],
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+  };
+}
+
+registerProvider({
+  id: 'claude',
+  label: 'Anthropic (Claude)',
+  vendor: 'Anthropic',
+  keyPlaceholder: 'sk-ant-...',
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  models: MODEL_OPTIONS.claude,
+  defaultModel: DEFAULT_MODELS.claude,
+  complete: async (config, request) => {
+    const response = await requestUrl({
+      url: 'https://api.anthropic.com/v1/messages',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      throw: false,
+      body: JSON.stringify(buildClaudeBody(config, request)),
+    });
+
+    assertResponseOk('Claude', response);
+
+    const usage = response.json.usage;
+    return {
+      text: response.json.content[0].text.trim(),
+      usage: usage ? { inputTokens: usage.input_tokens || 0, outputTokens: usage.output_tokens || 0 } : null,
+    };
+  },
+  stream: async (config, request, onDelta, signal) => {
+    let text = '';
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    await streamServerSentEvents<ClaudeStreamEvent>(
+      'Claude',
+      'https://api.anthropic.com/v1/messages',
+      {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        // fetch는 브라우저 요청으로 취급되므로 직접 호출 허용 헤더 필요
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      { ...buildClaudeBody(config, request), stream: true },
+      signal,
+      (data) => {
+        if (data.type === 'message_start') {
+          usage.inputTokens = data.message?.usage?.input_tokens || 0;
+        } else if (data.type === 'content_block_delta' && data.delta?.text) {
+          text += data.delta.text;
+          onDelta(data.delta.text);
+        } else if (data.type === 'message_delta') {
+          usage.outputTokens = data.usage?.output_tokens || 0;
+        } else if (data.type === 'error') {
+          // 스트림 도중 과부하 등은 재시도할 수 있는 서버 오류로 처리
+          throw new ProviderError(`Claude API 오류: ${data.error?.type || 'stream'}`, 529, null, data.error?.message || '');
+        }
+      }
+    );
+    return { text: text.trim(), usage: usage.outputTokens > 0 ? usage : null };
+  },
+  listModels: async (config) => {
+    const json = await fetchModelList('Claude', 'https://api.anthropic.com/v1/models?limit=1000', {
+      'x-api-key': config.apiKey,
+      'anthropic-version': '2023-06-01',
+    });
+    return getModelEntries(json, 'data')
+      .filter((model) => getStringField(model, 'id'))
+      .map((model) => ({
+        id: getStringField(model, 'id'),
+        name: getStringField(model, 'display_name') || getStringField(model, 'id'),
+      }));
+  },
+});
+
+// Gemini는 시스템 프롬프트를 사용자 프롬프트 앞에 붙여서 전달
+function buildGeminiBody(request: CompletionRequest): Record<string, unknown> {
+  return {
+    contents: [
+      {
+        parts: [{ text: `${request.systemPrompt}\n\n${request.userPrompt}` }],
+      },
+    ],
+    generationConfig: {
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      maxOutputTokens: 2000,
+    },
+  };
+}
+
+// 추론 모델의 생각 토큰도 출력 토큰으로 과금됨
+function parseGeminiUsage(usage: GeminiUsageMetadata | null | undefined): TokenUsage | null {
+  return usage
+    ? {
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+      }
+    : null;
+}
+
+registerProvider({
+  id: 'gemini',
+  label: 'Google (Gemini)',
+  vendor: 'Google',
+  keyPlaceholder: 'AIza...',
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  models: MODEL_OPTIONS.gemini,
+  defaultModel: DEFAULT_MODELS.gemini,
+  complete: async (config, request) => {
+    const response = await requestUrl({
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${config.modelId}:generateContent?key=${config.apiKey}`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      throw: false,
+      body: JSON.stringify(buildGeminiBody(request)),
+    });
+
+    assertResponseOk('Gemini', response);
+
+    return {
+      text: response.json.candidates[0].content.parts[0].text.trim(),
+      usage: parseGeminiUsage(response.json.usageMetadata),
+    };
+  },
+  stream: async (config, request, onDelta, signal) => {
+    let text = '';
+    let usage: TokenUsage | null = null;
+    await streamServerSentEvents<GeminiStreamChunk>(
+      'Gemini',
+      `https://generativelanguage.googleapis.com/v1beta/models/${config.modelId}:streamGenerateContent?alt=sse&key=${config.apiKey}`,
+      { 'Content-Type': 'application/json' },
+      buildGeminiBody(request),
+      signal,
+      (data) => {
+        const parts = data.candidates?.[0]?.content?.parts || [];
+        for (const part of parts) {
+          if (part.text && !part.thought) {
+            text += part.text;
+            onDelta(part.text);
+          }
+        }
+        if (data.usageMetadata) usage = parseGeminiUsage(data.usageMetadata);
+      }
+    );
+    return { text: text.trim(), usage };
+  },
+  listModels: async (config) => {
+    const json = await fetchModelList(
+      'Gemini',
+      `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&key=${config.apiKey}`
+    );
+    return getModelEntries(json, 'models')
+      .filter((model) => {
+        const methods = model.supportedGenerationMethods;
+        return getStringField(model, 'name') && Array.isArray(methods) && methods.includes('generateContent');
+      })
+      .map((model) => {
+        const id = getStringField(model, 'name').replace(/^models\//, '');
+        return { id, name: getStringField(model, 'displayName') || id };
+      });
+  },
+});
+
+registerProvider({
+  id: 'grok',
+  label: 'xAI (Grok)',
+  vendor: 'xAI',
+  keyPlaceholder: 'xai-...',
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  models: MODEL_OPTIONS.grok,
+  defaultModel: DEFAULT_MODELS.grok,
+  // Grok API는 OpenAI 호환 형식 사용
+  complete: (config, request) =>
+    callChatCompletions('Grok', 'https://api.x.ai/v1/chat/completions', config.apiKey, config.modelId, request),
+  stream: (config, request, onDelta, signal) =>
+    streamChatCompletions(
+      'Grok',
+      'https://api.x.ai/v1/chat/completions',
+      config.apiKey,
+      config.modelId,
+      request,
+      onDelta,
+      signal,
+      true
+    ),
+  listModels: (config) => listChatCompletionModels('Grok', 'https://api.x.ai/v1/models', config.apiKey),
+});
+
+registerProvider({
+  id: 'custom',
+  label: 'OpenAI 호환 (Ollama, LM Studio, vLLM 등)',
+  vendor: 'OpenAI 호환 서버',
+  keyPlaceholder: '(선택) API 키',
+  requiresApiKey: false,
+  requiresBaseUrl: true,
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  models: [],
+  defaultModel: '',
+  complete: (config, request) => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    return callChatCompletions('로컬 서버', `${baseUrl}/chat/completions`, config.apiKey, config.modelId, request);
+  },
+  stream: (config, request, onDelta, signal) => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    return streamChatCompletions(
+      '로컬 서버',
+      `${baseUrl}/chat/completions`,
+      config.apiKey,
+      config.modelId,
+      request,
+      onDelta,
+      signal,
+      false
+    );
+  },
+  listModels: (config) =>
+    listChatCompletionModels('로컬 서버', `${config.baseUrl.replace(/\/+$/, '')}/models`, config.apiKey),
+});
+
+// ==================== Usage & Cost ====================
+
+/**
+ * 토큰 수 추정 (한글·한자는 1글자 ≈ 1토큰, 그 외는 4글자 ≈ 1토큰)
+ */
+function estimateTokens(text: string): number {
+  const wide = (text.match(/[가-힣ㄱ-ㅎㅏ-ㅣ\u4E00-\u9FFF]/g) || []).length;
+  return wide + Math.ceil((text.length - wide) / 4);
+}
+
+function getModelPrice(modelId: string): ModelPrice | null {
+  return MODEL_PRICES[modelId] || null;
+}
+
+function calculateCost(modelId: string, usage: TokenUsage): number | null {
+  const price = getModelPrice(modelId);
+  if (!price) return null;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000;
+}
+
+/**
+ * 변환 전 예상 사용량 (학생당 후보 수만큼 요청, 출력은 목표 글자 수 기준)
+ * - 분량 조정 요청과 추론 모델의 추론 토큰은 포함하지 않음
+ */
+function estimateConversionUsage(
+  activities: StudentActivity[],
+  preset: PromptPreset,
+  budget: LengthBudget,
+  modelId: string,
+  candidateCount: number = 1
+): UsageEstimate {
+  const systemTokens = estimateTokens(preset.systemPrompt);
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  for (const activity of activities) {
+    usage.inputTokens += (systemTokens + estimateTokens(buildUserPrompt(preset, activity, budget))) * candidateCount;
+    usage.outputTokens += budget.targetChars * candidateCount;
+  }
+  return {
+    requests: activities.length * candidateCount,
+    requestsPerStudent: candidateCount,
+    ...usage,
+    cost: calculateCost(modelId, usage),
+  };
+}
+
+function formatTokens(count: number): string {
+  return `${count.toLocaleString('ko-KR')}토큰`;
+}
+
+function formatCost(cost: number | null): string {
+  if (cost === null) return '가격 정보 없음';
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function getUsageMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * 누적 사용량에 요청 한 번의 사용량 추가 (월·제공자별로 합산)
+ */
+function addToLedger(
+  ledger: UsageLedgerEntry[],
+  provider: string,
+  usage: TokenUsage,
+  cost: number | null,
+  date: Date = new Date()
+): UsageLedgerEntry[] {
+  const month = getUsageMonth(date);
+  const existing = ledger.find((e) => e.month === month && e.provider === provider);
+  const entry = existing || { month, provider, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+  const updated: UsageLedgerEntry = {
+    ...entry,
+    requests: entry.requests + 1,
+    inputTokens: entry.inputTokens + usage.inputTokens,
+    outputTokens: entry.outputTokens + usage.outputTokens,
+    cost: entry.cost + (cost || 0),
+  };
+  return existing ? ledger.map((e) => (e === existing ? updated : e)) : [...ledger, updated];
+}
+
+// ==================== Batch Scheduler ====================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 분당 요청 수 제한 (최근 1분간 요청 시각을 기록하는 슬라이딩 윈도우)
+ */
+class RateLimiter {
+  requestsPerMinute: number;
+  timestamps: number[] = [];
+
+  constructor(requestsPerMinute: number) {
+    this.requestsPerMinute = requestsPerMinute;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.requestsPerMinute <= 0) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter((t) => now - t < 60000);
+      if (this.timestamps.length < this.requestsPerMinute) {
+        this.timestamps.push(now);
+        return;
+      }
+      await sleep(60000 - (now - this.timestamps[0]) + 10);
+    }
+  }
+}
+
+/**
+ * 사용자가 일괄 처리를 중단했을 때 남은 요청을 멈추기 위한 오류
+ */
+class BatchCancelledError extends Error {
+  constructor() {
+    super('사용자가 변환을 중단했습니다.');
+    this.name = 'BatchCancelledError';
+  }
+}
+
+/**
+ * 일괄 처리 제어 (일시정지/재개/중단)
+ * - 이미 보낸 요청은 끝까지 기다리고, 새 요청만 멈춤
+ */
+class BatchControl {
+  paused: boolean = false;
+  cancelled: boolean = false;
+  resumeWaiters: (() => void)[] = [];
+
+  pause() {
+    if (!this.cancelled) this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this.flushWaiters();
+  }
+
+  cancel() {
+    this.cancelled = true;
+    this.paused = false;
+    this.flushWaiters();
+  }
+
+  async waitIfPaused(): Promise<void> {
+    while (this.paused && !this.cancelled) {
+      await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+    }
+  }
+
+  flushWaiters() {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
+
+/**
+ * 재시도할 가치가 있는 일시적 오류인지 판단 (429, 408, 5xx, 네트워크 오류)
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof BatchCancelledError) {
+    return false;
+  }
+  if (error instanceof ProviderError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  // 응답 형식 오류(TypeError 등)는 재시도해도 같은 결과
+  return !(error instanceof TypeError);
+}
+
+/**
+ * 재시도 대기 시간: Retry-After가 있으면 따르고, 없으면 지수 백오프 + 지터
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof ProviderError && error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, 120000);
+  }
+  const base = 1000 * Math.pow(2, attempt);
+  return Math.min(base + Math.random() * base * 0.25, 30000);
+}
+
+async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries: number,
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(error, attempt);
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * 최대 concurrency개의 작업을 동시에 실행 (입력 순서대로 작업을 가져감)
+ * - control이 일시정지 상태면 새 작업을 가져가지 않고, 중단되면 남은 작업을 건너뜀
+ */
+async function runBatch<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  control?: BatchControl
+): Promise<void> {
+  let nextIndex = 0;
+  const runners: Promise<void>[] = [];
+
+  for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+    runners.push(
+      (async () => {
+        for (;;) {
+          if (control) {
+            await control.waitIfPaused();
+            if (control.cancelled) return;
+          }
+          if (nextIndex >= items.length) return;
+          const index = nextIndex++;
+          await worker(items[index], index);
+        }
+      })()
+    );
+  }
+
+  await Promise.all(runners);
+}
+
+// ==================== Input Modal ====================
+
+class InputModal extends Modal {
+  plugin: StudentActivityPlugin;
+  inputData: string = '';
+  presetId: string;
+  subject: string = '';
+  aggregate: boolean;
+  aggregateBySubject: boolean;
+  classKey: string | null = null;
+  targetCharCount: number;
+  maxByteCount: number;
+  delimiter: string = 'auto';
+  hasHeader: boolean | null = null;
+  mapping: ColumnMapping | null = null;
+  mappingContainer: HTMLElement | null = null;
+  mappingSignature: string = '';
+  onSubmit: (activities: StudentActivity[], options: ConversionOptions) => void;
+
+  constructor(
+    app: App,
+    plugin: StudentActivityPlugin,
+    onSubmit: (activities: StudentActivity[], options: ConversionOptions) => void
+  ) {
+    super(app);
+    this.plugin = plugin;
+    const options = plugin.getDefaultConversionOptions();
+    this.presetId = options.presetId;
+    this.aggregate = plugin.settings.aggregateByStudent;
+    this.aggregateBySubject = plugin.settings.aggregateBySubject;
+    this.targetCharCount = options.targetCharCount;
+    this.maxByteCount = options.maxByteCount;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('student-activity-modal');
+
+    contentEl.createEl('h2', { text: '학생활동 → 교사관찰기록 변환' });
+
+    // 입력 안내
+    contentEl.createEl('p', {
+      text: '구글 스프레드시트에서 복사한 데이터나 CSV를 붙여넣으세요. 머리글(학번/이름/활동내용)이 있으면 열을 자동으로 찾고, 아래에서 열 배치를 바꿀 수 있습니다.',
+      cls: 'student-activity-description',
+    });
+
+    // 텍스트 영역
+    const textAreaContainer = contentEl.createDiv({ cls: 'student-activity-textarea-container' });
+    const textArea = textAreaContainer.createEl('textarea', {
+      cls: 'student-activity-textarea',
+      attr: { rows: '10', placeholder: '10101\t김철수\t프로젝트 활동에서 리더 역할을 맡아...\n10102\t이영희\t토론 수업에서 적극적으로 참여하여...' },
+    });
+    textArea.addEventListener('input', (e) => {
+      this.inputData = (e.target as HTMLTextAreaElement).value;
+      this.updatePreview();
+    });
+
+    // 학급 명부 (설정에서 명부를 가져온 경우)
+    const { roster } = this.plugin.settings;
+    if (roster.length > 0) {
+      new Setting(contentEl)
+        .setName('학급')
+        .setDesc('고른 학급 명부와 학번·이름을 대조하고, 빠진 학생을 알려줍니다.')
+        .addDropdown((dropdown) => {
+          dropdown.addOption('', '선택 안 함 (입력한 학번으로 판단)');
+          for (const classKey of getRosterClasses(roster)) {
+            dropdown.addOption(classKey, classKey);
+          }
+          dropdown.onChange((value) => {
+            this.classKey = value || null;
+            this.updatePreview();
+          });
+        })
+        .addButton((button) =>
+          button.setButtonText('명부로 학번·이름 채우기').onClick(() => {
+            if (!this.classKey) {
+              new Notice('학급을 먼저 선택해주세요.');
+              return;
+            }
+            const lines = roster
+              .filter((student) => getRosterClassKey(student) === this.classKey)
+              .map((student) => `${student.studentId}\t${student.studentName}\t`);
+            const current = textArea.value.trimEnd();
+            textArea.value = current ? `${current}\n${lines.join('\n')}` : lines.join('\n');
+            this.inputData = textArea.value;
+            this.updatePreview();
+          })
+        );
+    }
+
+    // 열 배치 (데이터를 입력하면 표시)
+    this.mappingContainer = contentEl.createDiv({ cls: 'student-activity-mapping' });
+
+    // 미리보기 영역
+    const previewContainer = contentEl.createDiv({ cls: 'student-activity-preview' });
+    previewContainer.createEl('h4', { text: '입력 데이터 미리보기' });
+    const previewContent = previewContainer.createDiv({ cls: 'student-activity-preview-content' });
+    previewContent.setText('데이터를 입력하면 여기에 미리보기가 표시됩니다.');
+
+    // 프리셋 및 글자수 설정
+    const charCountContainer = contentEl.createDiv({ cls: 'student-activity-char-count' });
+    let targetInput: TextComponent | null = null;
+    let maxByteInput: TextComponent | null = null;
+
+    new Setting(charCountContainer)
+      .setName('프롬프트 프리셋')
+      .setDesc('기록 영역에 맞는 프롬프트를 고릅니다. 바꾸면 분량도 프리셋 기본값으로 바뀝니다.')
+      .addDropdown((dropdown) => {
+        for (const preset of this.plugin.presets) {
+          dropdown.addOption(preset.id, preset.name);
+        }
+        dropdown.setValue(this.presetId);
+        dropdown.onChange((value) => {
+          const preset = this.plugin.getPreset(value);
+          this.presetId = preset.id;
+          this.targetCharCount = preset.targetCharCount;
+          this.maxByteCount = preset.maxByteCount;
+          targetInput?.setValue(String(this.targetCharCount));
+          maxByteInput?.setValue(String(this.maxByteCount));
+          this.updateByteEstimate();
+        });
+      });
+
+    new Setting(charCountContainer)
+      .setName('과목')
+      .setDesc('세부능력 및 특기사항처럼 과목이 필요한 경우 입력합니다. (선택)')
+      .addText((text) => {
+        text
+          .setPlaceholder('예: 국어')
+          .onChange((value) => {
+            this.subject = value.trim();
+          });
+      });
+
+    new Setting(charCountContainer)
+      .setName('목표 글자 수')
+      .setDesc('생성될 교사관찰기록의 목표 글자 수를 설정합니다.')
+      .addText((text) => {
+        targetInput = text;
+        text
+          .setValue(String(this.targetCharCount))
+          .onChange((value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num > 0) {
+              this.targetCharCount = num;
+              this.updateByteEstimate();
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '100';
+        text.inputEl.max = '2000';
+      });
+
+    new Setting(charCountContainer)
+      .setName('최대 바이트 수')
+      .setDesc('NEIS 입력 한도입니다. 넘으면 자동으로 줄여서 다시 요청합니다. (0이면 제한 없음)')
+      .addText((text) => {
+        maxByteInput = text;
+        text
+          .setValue(String(this.maxByteCount))
+          .onChange((value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0) {
+              this.maxByteCount = num;
+              this.updateByteEstimate();
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+      });
+
+    // 예상 바이트수 표시
+    const byteEstimateEl = charCountContainer.createDiv({ cls: 'student-activity-byte-estimate' });
+    this.updateByteEstimate(byteEstimateEl);
+
+    // 버튼 컨테이너
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: '취소',
+      cls: 'student-activity-cancel-btn'
+    });
+    cancelBtn.addEventListener('click', () => {
+      this.close();
+    });
+
+    const submitBtn = buttonContainer.createEl('button', {
+      text: '교사관찰기록 생성',
+      cls: 'mod-cta student-activity-submit-btn',
+    });
+    submitBtn.addEventListener('click', () => {
+      if (!this.inputData.trim()) {
+        new Notice('데이터를 입력해주세요.');
+        return;
+      }
+      const parsed = this.parse();
+      const activities = this.collectActivities();
+      if (activities.length === 0) {
+        new Notice('유효한 데이터가 없습니다. 학번, 이름, 활동내용 열을 확인해주세요.');
+        return;
+      }
+      if (parsed.skipped.length > 0) {
+        new Notice(`${parsed.skipped.length}개 행은 학번/이름/활동내용이 없어 건너뜁니다.`);
+      }
+      const mismatches = this.validateRoster(parsed.activities).filter((issue) => issue.type !== 'missing');
+      if (mismatches.length > 0) {
+        new Notice(`명부와 맞지 않는 학번/이름이 ${mismatches.length}건 있습니다. 결과를 복사하기 전에 확인해주세요.`, 8000);
+      }
+      this.onSubmit(activities, {
+        targetCharCount: this.targetCharCount,
+        maxByteCount: this.maxByteCount,
+        presetId: this.presetId,
+      });
+      this.close();
+    });
+  }
+
+  parse(): SpreadsheetParseResult {
+    return parseSpreadsheet(this.inputData, {
+      delimiter: this.delimiter === 'auto' ? undefined : this.delimiter,
+      hasHeader: this.hasHeader ?? undefined,
+      mapping: this.mapping ?? undefined,
+    });
+  }
+
+  /**
+   * 명부와 대조 (명부가 없으면 빈 목록)
+   */
+  validateRoster(activities: StudentActivity[]): RosterIssue[] {
+    const { roster } = this.plugin.settings;
+    if (roster.length === 0) return [];
+    return validateAgainstRoster(activities, roster, this.classKey, this.aggregate);
+  }
+
+  /**
+   * 변환할 활동 목록 (과목 입력값 적용, 합치기 모드면 학생별로 합침)
+   */
+  collectActivities(): StudentActivity[] {
+    const { activities } = this.parse();
+    if (this.subject) {
+      for (const activity of activities) {
+        if (!activity.subject) activity.subject = this.subject;
+      }
+    }
+    return this.aggregate ? aggregateActivities(activities, this.aggregateBySubject) : activities;
+  }
+
+  updatePreview() {
+    const previewContent = this.contentEl.querySelector('.student-activity-preview-content');
+    if (!previewContent) return;
+
+    let result = this.parse();
+    // 열 수가 줄어 지정한 열이 없어지면 자동 배치로 되돌림
+    const { mapping } = this;
+    if (
+      mapping &&
+      Math.max(mapping.studentId, mapping.studentName, mapping.activity, mapping.subject) >= result.columnCount
+    ) {
+      this.mapping = null;
+      result = this.parse();
+    }
+    this.renderMapping(result);
+
+    if (result.activities.length === 0) {
+      previewContent.setText('유효한 데이터가 없습니다. 학번, 이름, 활동내용 열을 확인해주세요.');
+      return;
+    }
+
+    const activities = this.collectActivities();
+    const format = result.delimiter === ',' ? 'CSV' : 'TSV';
+    const merged = this.aggregate ? `, ${result.activities.length}개 활동을 합침` : '';
+    let preview = `총 ${activities.length}건의 학생 데이터 (${format}${result.hasHeader ? ', 머리글 있음' : ''}${merged}):\n\n`;
+    for (const activity of activities.slice(0, 5)) {
+      const subject = activity.subject ? ` [${activity.subject}]` : '';
+      preview += `- ${activity.studentId} ${activity.studentName}${subject}: ${activity.activityContent.replace(/\n/g, ' ').substring(0, 50)}...\n`;
+    }
+    if (activities.length > 5) {
+      preview += `\n... 외 ${activities.length - 5}건`;
+    }
+
+    if (result.skipped.length > 0) {
+      preview += `\n\n⚠️ 건너뛴 행 ${result.skipped.length}개:\n`;
+      for (const row of result.skipped.slice(0, 5)) {
+        preview += `- ${row.line}행: ${row.reason} (${row.preview})\n`;
+      }
+      if (result.skipped.length > 5) {
+        preview += `... 외 ${result.skipped.length - 5}개`;
+      }
+    }
+
+    const issues = this.validateRoster(result.activities);
+    if (issues.length > 0) {
+      preview += `\n\n⚠️ 명부 대조 ${issues.length}건:\n`;
+      for (const issue of issues.slice(0, 8)) {
+        preview += `- ${issue.message}\n`;
+      }
+      if (issues.length > 8) {
+        preview += `... 외 ${issues.length - 8}건`;
+      }
+    }
+
+    previewContent.setText(preview);
+  }
+
+  /**
+   * 열 배치 선택 UI (구분자, 머리글 여부, 학번/이름/활동내용 열)
+   * - 열 구성이 바뀔 때만 다시 그림
+   */
+  renderMapping(result: SpreadsheetParseResult) {
+    if (!this.mappingContainer) return;
+
+    const signature = JSON.stringify([result.delimiter, result.hasHeader, result.header, result.columnCount, result.mapping]);
+    if (signature === this.mappingSignature) return;
+    this.mappingSignature = signature;
+
+    const container = this.mappingContainer;
+    container.empty();
+    if (result.columnCount === 0) return;
+
+    container.createEl('h4', { text: '열 배치' });
+
+    new Setting(container).setName('구분자').addDropdown((dropdown) => {
+      dropdown.addOption('auto', '자동 감지');
+      dropdown.addOption('\t', '탭 (TSV)');
+      dropdown.addOption(',', '쉼표 (CSV)');
+      dropdown.setValue(this.delimiter);
+      dropdown.onChange((value) => {
+        this.delimiter = value;
+        this.mapping = null;
+        this.updatePreview();
+      });
+    });
+
+    new Setting(container).setName('첫 행은 머리글').addToggle((toggle) => {
+      toggle.setValue(result.hasHeader);
+      toggle.onChange((value) => {
+        this.hasHeader = value;
+        this.mapping = null;
+        this.updatePreview();
+      });
+    });
+
+    const columnLabel = (index: number) =>
+      result.header && result.header[index] ? `${index + 1}열: ${result.header[index]}` : `${index + 1}열`;
+
+    const fields: { key: keyof ColumnMapping; name: string }[] = [
+      { key: 'studentId', name: '학번 열' },
+      { key: 'studentName', name: '이름 열' },
+      { key: 'activity', name: '활동내용 열' },
+      { key: 'subject', name: '과목/영역 열' },
+    ];
+    for (const field of fields) {
+      new Setting(container).setName(field.name).addDropdown((dropdown) => {
+        if (field.key === 'activity') {
+          dropdown.addOption('-1', '학번·이름·과목 외 나머지 열 모두');
+        }
+        if (field.key === 'subject') {
+          dropdown.addOption('-1', '없음');
+        }
+        for (let i = 0; i < result.columnCount; i++) {
+          dropdown.addOption(String(i), columnLabel(i));
+        }
+        dropdown.setValue(String(result.mapping[field.key]));
+        dropdown.onChange((value) => {
+          this.mapping = { ...result.mapping, [field.key]: parseInt(value) };
+          this.updatePreview();
+        });
+      });
+    }
+
+    new Setting(container)
+      .setName('학생별로 합치기')
+      .setDesc('같은 학번의 여러 활동 행을 모아 하나의 교사관찰기록으로 종합합니다.')
+      .addToggle((toggle) => {
+        toggle.setValue(this.aggregate);
+        toggle.onChange((value) => {
+          this.aggregate = value;
+          this.mappingSignature = '';
+          this.updatePreview();
+        });
+      });
+
+    if (this.aggregate) {
+      new Setting(container)
+        .setName('과목/영역별로 나누기')
+        .setDesc('과목/영역 열이 있으면 한 학생의 활동도 과목/영역마다 따로 합칩니다.')
+        .addToggle((toggle) => {
+          toggle.setValue(this.aggregateBySubject);
+          toggle.onChange((value) => {
+            this.aggregateBySubject = value;
+            this.updatePreview();
+          });
+        });
+    }
+  }
+
+  updateByteEstimate(el?: Element) {
+    const byteEstimateEl = el || this.contentEl.querySelector('.student-activity-byte-estimate');
+    if (!byteEstimateEl) return;
+
+    const estimate = estimateBytes(this.targetCharCount);
+    if (this.maxByteCount > 0 && estimateBytes(Math.round(this.targetCharCount * 1.1)) > this.maxByteCount) {
+      byteEstimateEl.setText(
+        `예상 바이트 수: ${estimate} 바이트 ⚠️ 목표 글자 수가 최대 ${this.maxByteCount}바이트에 비해 많습니다.`
+      );
+    } else {
+      byteEstimateEl.setText(`예상 바이트 수: ${estimate} 바이트`);
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Roster Import Modal ====================
+
+/**
+ * 학급 명부 가져오기 Modal (학년/반/번호/학번/이름 TSV 또는 CSV 붙여넣기)
+ */
+class RosterImportModal extends Modal {
+  inputData: string = '';
+  onImport: (students: RosterStudent[]) => Promise<void>;
+
+  constructor(app: App, onImport: (students: RosterStudent[]) => Promise<void>) {
+    super(app);
+    this.onImport = onImport;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('student-activity-modal');
+
+    contentEl.createEl('h2', { text: '학급 명부 가져오기' });
+    contentEl.createEl('p', {
+      text: '학년, 반, 번호, 학번, 이름 열이 있는 명부를 붙여넣으세요. 학번이 없으면 학년·반·번호로 만들고, 이미 있는 학급은 새 명부로 바뀝니다.',
+      cls: 'student-activity-description',
+    });
+
+    const textArea = contentEl.createEl('textarea', {
+      cls: 'student-activity-textarea',
+      attr: { rows: '10', placeholder: '학년\t반\t번호\t학번\t이름\n1\t1\t1\t10101\t김철수' },
+    });
+
+    const previewContent = contentEl
+      .createDiv({ cls: 'student-activity-preview' })
+      .createDiv({ cls: 'student-activity-preview-content' });
+    previewContent.setText('명부를 붙여넣으면 여기에 학급별 인원이 표시됩니다.');
+
+    textArea.addEventListener('input', () => {
+      this.inputData = textArea.value;
+      const { students, skipped } = parseRoster(this.inputData);
+      const counts = getRosterClasses(students).map(
+        (classKey) => `- ${classKey}: ${students.filter((s) => getRosterClassKey(s) === classKey).length}명`
+      );
+      let preview = `총 ${students.length}명\n${counts.join('\n')}`;
+      if (skipped.length > 0) {
+        preview += `\n\n⚠️ 건너뛴 행 ${skipped.length}개: ${skipped
+          .slice(0, 5)
+          .map((row) => `${row.line}행`)
+          .join(', ')}`;
+      }
+      previewContent.setText(preview);
+    });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    const cancelBtn = buttonContainer.createEl('button', { text: '취소', cls: 'student-activity-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const importBtn = buttonContainer.createEl('button', { text: '가져오기', cls: 'mod-cta' });
+    importBtn.addEventListener('click', async () => {
+      const { students } = parseRoster(this.inputData);
+      if (students.length === 0) {
+        new Notice('가져올 학생이 없습니다. 학번과 이름 열을 확인해주세요.');
+        return;
+      }
+      await this.onImport(students);
+      this.close();
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Note Import Modal ====================
+
+/**
+ * 볼트의 학생 노트에서 활동을 가져와 변환하는 Modal (폴더/태그, 기간, 과목으로 거름)
+ */
+class NoteImportModal extends Modal {
+  plugin: StudentActivityPlugin;
+  filter: NoteImportFilter;
+  presetId: string;
+  aggregate: boolean;
+  result: NoteImportResult | null = null;
+  previewEl: HTMLElement | null = null;
+
+  constructor(app: App, plugin: StudentActivityPlugin, folder: string = '') {
+    super(app);
+    this.plugin = plugin;
+    this.filter = { folder, tag: '', from: '', to: '', subject: '' };
+    this.presetId = plugin.getDefaultConversionOptions().presetId;
+    this.aggregate = plugin.settings.aggregateByStudent;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('student-activity-modal');
+
+    contentEl.createEl('h2', { text: '노트에서 학생활동 가져오기' });
+    contentEl.createEl('p', {
+      text: '프론트매터에 학번, 이름(과목, 날짜는 선택)이 있는 노트를 찾아 글머리 기호 항목을 활동으로 가져옵니다. "- 2025-03-05 ..."처럼 날짜로 시작하는 항목은 기간으로 거를 수 있습니다.',
+      cls: 'student-activity-description',
+    });
+
+    const textSetting = (name: string, key: keyof NoteImportFilter, placeholder: string, type: string = 'text') =>
+      new Setting(contentEl).setName(name).addText((text) => {
+        text
+          .setPlaceholder(placeholder)
+          .setValue(this.filter[key])
+          .onChange((value) => {
+            this.filter[key] = value.trim();
+            this.result = null;
+          });
+        text.inputEl.type = type;
+      });
+
+    textSetting('폴더', 'folder', '예: 학생기록/2학년 3반');
+    textSetting('태그', 'tag', '예: #세특');
+    textSetting('시작일', 'from', 'YYYY-MM-DD', 'date');
+    textSetting('종료일', 'to', 'YYYY-MM-DD', 'date');
+    textSetting('과목', 'subject', '예: 국어 (비워두면 전체)');
+
+    new Setting(contentEl).setName('프롬프트 프리셋').addDropdown((dropdown) => {
+      for (const preset of this.plugin.presets) {
+        dropdown.addOption(preset.id, preset.name);
+      }
+      dropdown.setValue(this.presetId);
+      dropdown.onChange((value) => {
+        this.presetId = value;
+      });
+    });
+
+    new Setting(contentEl)
+      .setName('학생별로 합치기')
+      .setDesc('같은 학생의 여러 노트를 하나의 교사관찰기록으로 종합합니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.aggregate).onChange((value) => {
+          this.aggregate = value;
+          this.result = null;
+        })
+      );
+
+    const previewContainer = contentEl.createDiv({ cls: 'student-activity-preview' });
+    previewContainer.createEl('h4', { text: '가져올 활동 미리보기' });
+    this.previewEl = previewContainer.createDiv({ cls: 'student-activity-preview-content' });
+    this.previewEl.setText('"노트 찾기"를 누르면 가져올 활동이 표시됩니다.');
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    const findBtn = buttonContainer.createEl('button', { text: '노트 찾기' });
+    findBtn.addEventListener('click', () => this.refresh());
+
+    const submitBtn = buttonContainer.createEl('button', {
+      text: '교사관찰기록 생성',
+      cls: 'mod-cta student-activity-submit-btn',
+    });
+    submitBtn.addEventListener('click', async () => {
+      const result = this.result || (await this.refresh());
+      if (!result || result.activities.length === 0) {
+        new Notice('가져올 활동이 없습니다. 폴더/태그와 기간을 확인해주세요.');
+        return;
+      }
+      const preset = this.plugin.getPreset(this.presetId);
+      this.close();
+      await this.plugin.convertActivities(result.activities, {
+        targetCharCount: preset.targetCharCount,
+        maxByteCount: preset.maxByteCount,
+        presetId: preset.id,
+      });
+    });
+  }
+
+  async refresh(): Promise<NoteImportResult | null> {
+    if (!this.filter.folder && !this.filter.tag) {
+      new Notice('폴더나 태그를 입력해주세요.');
+      return null;
+    }
+
+    const result = await this.plugin.collectNoteActivities(this.filter);
+    if (this.aggregate) {
+      result.activities = aggregateActivities(result.activities, this.plugin.settings.aggregateBySubject);
+    }
+    this.result = result;
+
+    if (this.previewEl) {
+      let preview = `노트 ${result.noteCount}개에서 ${result.activities.length}건의 학생활동을 찾았습니다.\n\n`;
+      for (const activity of result.activities.slice(0, 5)) {
+        const subject = activity.subject ? ` [${activity.subject}]` : '';
+        preview += `- ${activity.studentId} ${activity.studentName}${subject}: ${activity.activityContent.replace(/\n/g, ' ').substring(0, 50)}...\n`;
+      }
+      if (result.activities.length > 5) {
+        preview += `\n... 외 ${result.activities.length - 5}건`;
+      }
+      if (result.skipped.length > 0) {
+        preview += `\n\n⚠️ 제외한 노트 ${result.skipped.length}개:\n`;
+        for (const note of result.skipped.slice(0, 5)) {
+          preview += `- ${note.path}: ${note.reason}\n`;
+        }
+        if (result.skipped.length > 5) {
+          preview += `... 외 ${result.skipped.length - 5}개`;
+        }
+      }
+      this.previewEl.setText(preview);
+    }
+    return result;
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Progress Modal ====================
+
+class ProgressModal extends Modal {
+  progressText: HTMLElement | null = null;
+  progressBar: HTMLElement | null = null;
+  progressBarFill: HTMLElement | null = null;
+  progressPercentText: HTMLElement | null = null;
+  statusText: HTMLElement | null = null;
+  retryText: HTMLElement | null = null;
+  studentListContainer: HTMLElement | null = null;
+  totalCount: number = 0;
+  completedCount: number = 0;
+  failedCount: number = 0;
+  inFlight: Map<number, string> = new Map();
+  startTime: number = 0;
+  startCount: number = 0;
+  control: BatchControl | null;
+  pauseBtn: HTMLButtonElement | null = null;
+  cancelBtn: HTMLButtonElement | null = null;
+  budget: LengthBudget | null = null;
+  previewContainer: HTMLElement | null = null;
+  previews: Map<number, { card: HTMLElement; textEl: HTMLElement; countEl: HTMLElement; stopBtn: HTMLButtonElement }> =
+    new Map();
+
+  constructor(app: App, control: BatchControl | null = null) {
+    super(app);
+    this.control = control;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('student-activity-progress-modal');
+
+    // 헤더 영역
+    const headerDiv = contentEl.createDiv({ cls: 'progress-header' });
+    const iconSpan = headerDiv.createSpan({ cls: 'progress-icon' });
+    iconSpan.innerHTML = '✨';
+    headerDiv.createEl('h2', { text: '교사관찰기록 생성 중' });
+
+    // 현재 처리 중인 학생 정보 (강조)
+    this.progressText = contentEl.createEl('p', { cls: 'progress-text' });
+    this.progressText.setText('AI 변환 준비 중...');
+
+    // 프로그레스 바 컨테이너 (원형 퍼센트 포함)
+    const progressWrapper = contentEl.createDiv({ cls: 'progress-wrapper' });
+
+    // 원형 프로그레스 표시
+    const circleContainer = progressWrapper.createDiv({ cls: 'progress-circle-container' });
+    this.progressPercentText = circleContainer.createDiv({ cls: 'progress-circle' });
+    this.progressPercentText.setText('0%');
+
+    // 바형 프로그레스
     const barSection = progressWrapper.createDiv({ cls: 'progress-bar-section' });
     const progressBarContainer = barSection.createDiv({ cls: 'progress-bar-container' });
     this.progressBar = progressBarContainer.createDiv({ cls: 'progress-bar-bg' });
     this.progressBarFill = this.progressBar.createDiv({ cls: 'progress-bar-fill' });
     this.progressBarFill.style.width = '0%';
 
-    // 진행 단계 표시
-    this.statusText = barSection.createEl('p', { cls: 'progress-status' });
-    this.statusText.setText('잠시만 기다려주세요...');
+    // 진행 단계 표시
+    this.statusText = barSection.createEl('p', { cls: 'progress-status' });
+    this.statusText.setText('잠시만 기다려주세요...');
+
+    // 재시도 안내 (429/5xx 발생 시)
+    this.retryText = contentEl.createEl('p', { cls: 'progress-retry' });
+
+    // 생성 중인 기록 미리보기 (스트리밍으로 받는 글)
+    this.previewContainer = contentEl.createDiv({ cls: 'progress-preview-list' });
+
+    // 완료된 학생 목록 (스크롤 가능)
+    const listSection = contentEl.createDiv({ cls: 'progress-list-section' });
+    listSection.createEl('h4', { text: '📝 변환 완료' });
+    this.studentListContainer = listSection.createDiv({ cls: 'progress-student-list' });
+
+    // 일시정지/중단 버튼
+    if (this.control) {
+      const control = this.control;
+      const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+      this.pauseBtn = buttonContainer.createEl('button', { text: '⏸ 일시정지' });
+      this.pauseBtn.addEventListener('click', () => {
+        if (control.paused) {
+          control.resume();
+        } else {
+          control.pause();
+        }
+        this.render();
+      });
+
+      this.cancelBtn = buttonContainer.createEl('button', { text: '⏹ 중단', cls: 'mod-warning' });
+      this.cancelBtn.addEventListener('click', () => {
+        control.cancel();
+        this.render();
+      });
+    }
+
+    // 안내 메시지
+    const infoText = contentEl.createEl('p', { cls: 'progress-info' });
+    infoText.innerHTML = '🤖 AI가 학생활동 내용을 <strong>교사관찰기록 문체</strong>로 변환하고 있습니다.<br>완료된 학생은 바로 저장되므로 중간에 옵시디언이 종료되어도 <strong>중단된 변환 이어하기</strong>로 계속할 수 있습니다.';
+  }
+
+  start(total: number, alreadyCompleted: number = 0, budget: LengthBudget | null = null) {
+    this.budget = budget;
+    this.totalCount = total;
+    this.completedCount = alreadyCompleted;
+    this.startCount = alreadyCompleted;
+    this.failedCount = 0;
+    this.inFlight.clear();
+    this.startTime = Date.now();
+    this.render();
+  }
+
+  markStarted(index: number, studentName: string) {
+    this.inFlight.set(index, studentName);
+    this.render();
+  }
+
+  /**
+   * 스트리밍으로 받는 글과 목표 대비 글자 수·바이트 수 표시
+   */
+  updatePreview(index: number, text: string) {
+    const preview = this.getPreview(index);
+    if (!preview) return;
+    preview.textEl.setText(text);
+    preview.textEl.scrollTop = preview.textEl.scrollHeight;
+
+    const chars = countChars(text);
+    const bytes = countBytes(text);
+    const target = this.budget ? ` / 목표 ${this.budget.targetChars}자` : '';
+    const limit = this.budget && this.budget.maxBytes > 0 ? ` / 최대 ${this.budget.maxBytes}바이트` : '';
+    preview.countEl.setText(`${chars}자${target} · ${bytes}바이트${limit}`);
+    preview.countEl.toggleClass(
+      'progress-preview-over',
+      !!this.budget && this.budget.maxBytes > 0 && bytes > this.budget.maxBytes
+    );
+  }
+
+  /**
+   * 받는 중인 응답을 멈추는 버튼 연결 (멈추면 받은 데까지로 분량 조정을 이어감)
+   */
+  setStopHandler(index: number, stop: (() => void) | null) {
+    const preview = stop ? this.getPreview(index) : this.previews.get(index);
+    if (!preview) return;
+    preview.stopBtn.disabled = !stop;
+    preview.stopBtn.onclick = stop
+      ? () => {
+          preview.stopBtn.disabled = true;
+          stop();
+        }
+      : null;
+  }
+
+  getPreview(index: number) {
+    const existing = this.previews.get(index);
+    if (existing || !this.previewContainer) return existing;
+
+    const card = this.previewContainer.createDiv({ cls: 'progress-preview' });
+    const header = card.createDiv({ cls: 'progress-preview-header' });
+    header.createSpan({ text: `✍️ ${this.inFlight.get(index) || ''}`, cls: 'progress-preview-name' });
+    const countEl = header.createSpan({ cls: 'progress-preview-count' });
+    const stopBtn = header.createEl('button', { text: '✋ 응답 멈추기', cls: 'progress-preview-stop' });
+    stopBtn.disabled = true;
+    const textEl = card.createDiv({ cls: 'progress-preview-text' });
+    const preview = { card, textEl, countEl, stopBtn };
+    this.previews.set(index, preview);
+    return preview;
+  }
+
+  removePreview(index: number) {
+    this.previews.get(index)?.card.remove();
+    this.previews.delete(index);
+  }
+
+  markRetrying(studentName: string, attempt: number, maxRetries: number, delayMs: number) {
+    if (this.retryText) {
+      this.retryText.setText(
+        `🔁 ${studentName}: 일시적 오류로 ${Math.ceil(delayMs / 1000)}초 후 재시도 (${attempt}/${maxRetries})`
+      );
+    }
+  }
+
+  markFallback(studentName: string, label: string) {
+    if (this.retryText) {
+      this.retryText.setText(`↪️ ${studentName}: 모델 요청이 실패하여 ${label}(으)로 바꿔 생성 중`);
+    }
+  }
+
+  markRevising(studentName: string, attempt: number, maxRevisions: number) {
+    if (this.retryText) {
+      this.retryText.setText(`✂️ ${studentName}: 분량 기준에 맞게 다시 요청 중 (${attempt}/${maxRevisions})`);
+    }
+  }
+
+  markCandidate(studentName: string, candidate: number, total: number) {
+    if (this.retryText) {
+      this.retryText.setText(`🧪 ${studentName}: 후보 생성 중 (${candidate + 1}/${total})`);
+    }
+  }
+
+  markCandidateFailed(studentName: string, candidate: number, total: number) {
+    if (this.retryText) {
+      this.retryText.setText(`⚠️ ${studentName}: 후보 ${candidate + 1}/${total} 생성 실패, 나머지 후보로 계속`);
+    }
+  }
+
+  markStopped(index: number) {
+    this.inFlight.delete(index);
+    this.removePreview(index);
+    this.render();
+  }
+
+  markFinished(index: number, studentName: string, success: boolean) {
+    this.inFlight.delete(index);
+    this.removePreview(index);
+    this.completedCount++;
+    if (!success) this.failedCount++;
+
+    if (this.studentListContainer) {
+      const studentTag = this.studentListContainer.createSpan({
+        cls: success ? 'completed-student-tag' : 'completed-student-tag failed',
+      });
+      studentTag.setText(`${success ? '✓' : '✗'} ${studentName}`);
+      // 스크롤을 최신 항목으로
+      this.studentListContainer.scrollTop = this.studentListContainer.scrollHeight;
+    }
+    this.render();
+  }
+
+  render() {
+    const total = this.totalCount;
+    const current = this.completedCount;
+    const percentage = total > 0 ? Math.round((current / total) * 100) : 0;
+
+    if (this.progressText) {
+      // 학생 이름은 붙여넣은 표나 노트에서 오므로 HTML이 아닌 텍스트로 넣음
+      const names = Array.from(this.inFlight.values());
+      this.progressText.empty();
+      if (names.length > 0) {
+        this.progressText.createSpan({ text: `🎯 ${names.join(', ')}`, cls: 'current-student' });
+        this.progressText.appendText(' 변환 중... ');
+      }
+      this.progressText.createSpan({ text: `(${current}/${total}명 완료)`, cls: 'progress-count' });
+    }
+    if (this.progressBarFill) {
+      this.progressBarFill.style.width = `${percentage}%`;
+      // 동적 색상 변화
+      if (percentage < 30) {
+        this.progressBarFill.style.background = 'linear-gradient(90deg, #ff6b6b, #ffa502)';
+      } else if (percentage < 70) {
+        this.progressBarFill.style.background = 'linear-gradient(90deg, #ffa502, #2ed573)';
+      } else {
+        this.progressBarFill.style.background = 'linear-gradient(90deg, #2ed573, #1e90ff)';
+      }
+    }
+    if (this.progressPercentText) {
+      this.progressPercentText.setText(`${percentage}%`);
+      this.progressPercentText.style.background = `conic-gradient(var(--interactive-accent) ${percentage * 3.6}deg, var(--background-modifier-border) 0deg)`;
+    }
+    if (this.pauseBtn && this.control) {
+      this.pauseBtn.setText(this.control.paused ? '▶ 재개' : '⏸ 일시정지');
+      this.pauseBtn.disabled = this.control.cancelled;
+    }
+    if (this.cancelBtn && this.control) {
+      this.cancelBtn.disabled = this.control.cancelled;
+    }
+    if (this.statusText) {
+      const failedInfo = this.failedCount > 0 ? `, 실패 ${this.failedCount}명` : '';
+      if (this.control?.cancelled) {
+        this.statusText.innerHTML = `⏹ 중단하는 중... 이미 보낸 요청 <strong>${this.inFlight.size}건</strong>만 마무리합니다.`;
+      } else if (this.control?.paused) {
+        this.statusText.innerHTML = `⏸ 일시정지됨 (진행 중인 요청 ${this.inFlight.size}건은 마무리됩니다)`;
+      } else if (current === total) {
+        this.statusText.innerHTML = `✅ 변환 완료!${this.failedCount > 0 ? ` (실패 ${this.failedCount}명)` : ''} 결과를 저장하고 있습니다...`;
+      } else if (current === this.startCount) {
+        this.statusText.innerHTML = `⏳ 남은 학생: <strong>${total - current}명</strong> (동시 처리 ${this.inFlight.size}건)`;
+      } else {
+        // 실제 처리 속도(동시 처리 포함)로 남은 시간 계산
+        const remaining = total - current;
+        const elapsed = (Date.now() - this.startTime) / 1000;
+        const estimatedTime = Math.round((elapsed / (current - this.startCount)) * remaining);
+        this.statusText.innerHTML = `⏳ 남은 학생: <strong>${remaining}명</strong> (예상 ${estimatedTime}초${failedInfo}, 동시 처리 ${this.inFlight.size}건)`;
+      }
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Review Modal ====================
+
+type ReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+interface ReviewItem {
+  record: ObservationRecord;
+  status: ReviewStatus;
+}
+
+/**
+ * 결과 검토 Modal - 원문과 생성된 기록을 나란히 보며 수정/승인/제외/다시 생성
+ */
+class ReviewModal extends Modal {
+  items: ReviewItem[];
+  budget: LengthBudget;
+  regenerate: (record: ObservationRecord, instruction?: string) => Promise<ObservationRecord>;
+  onSave: (records: ObservationRecord[]) => Promise<void>;
+  onDiscard: () => void;
+  saved: boolean = false;
+  summaryEl: HTMLElement | null = null;
+  listEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    records: ObservationRecord[],
+    budget: LengthBudget,
+    regenerate: (record: ObservationRecord, instruction?: string) => Promise<ObservationRecord>,
+    onSave: (records: ObservationRecord[]) => Promise<void>,
+    onDiscard: () => void
+  ) {
+    super(app);
+    this.items = records.map((record) => ({ record: { ...record }, status: 'pending' }));
+    this.budget = budget;
+    this.regenerate = regenerate;
+    this.onSave = onSave;
+    this.onDiscard = onDiscard;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.modalEl.addClass('student-activity-review-modal-container');
+    contentEl.addClass('student-activity-review-modal');
+
+    contentEl.createEl('h2', { text: '교사관찰기록 검토' });
+    contentEl.createEl('p', {
+      text: '기록을 직접 고치거나 다시 생성할 수 있습니다. 승인한 기록만 결과 노트에 저장됩니다.',
+      cls: 'student-activity-description',
+    });
+
+    this.listEl = contentEl.createDiv({ cls: 'review-list' });
+    this.items.forEach((item) => this.renderItem(item));
+
+    // 하단 요약 및 버튼
+    const footer = contentEl.createDiv({ cls: 'modal-button-container' });
+    this.summaryEl = footer.createDiv({ cls: 'review-summary' });
+
+    const acceptAllBtn = footer.createEl('button', { text: '대기 중인 기록 모두 승인' });
+    acceptAllBtn.addEventListener('click', () => {
+      this.items.forEach((item) => {
+        if (item.status === 'pending') item.status = 'accepted';
+      });
+      this.refreshList();
+    });
+
+    const saveBtn = footer.createEl('button', {
+      text: '승인한 기록 저장',
+      cls: 'mod-cta student-activity-submit-btn',
+    });
+    saveBtn.addEventListener('click', async () => {
+      const accepted = this.items
+        .filter((item) => item.status === 'accepted')
+        .map((item) => stripCandidates(ensureCurrentVersion(item.record)));
+      if (accepted.length === 0) {
+        new Notice('승인한 기록이 없습니다.');
+        return;
+      }
+      this.saved = true;
+      this.close();
+      await this.onSave(accepted);
+    });
+
+    this.updateSummary();
+  }
+
+  refreshList() {
+    if (!this.listEl) return;
+    this.listEl.empty();
+    this.items.forEach((item) => this.renderItem(item));
+    this.updateSummary();
+  }
+
+  renderItem(item: ReviewItem) {
+    if (!this.listEl) return;
+    const card = this.listEl.createDiv({ cls: `review-card review-${item.status}` });
+
+    const header = card.createDiv({ cls: 'review-card-header' });
+    header.createSpan({ text: `${item.record.studentId} ${item.record.studentName}`, cls: 'review-student' });
+    const statusLabels: Record<ReviewStatus, string> = { pending: '검토 대기', accepted: '승인', rejected: '제외' };
+    header.createSpan({ text: statusLabels[item.status], cls: 'review-status-badge' });
+
+    const body = card.createDiv({ cls: 'review-card-body' });
+    const source = body.createDiv({ cls: 'review-source' });
+    source.createEl('h5', { text: '학생활동기록' });
+    source.createDiv({ text: item.record.activityContent, cls: 'review-source-text' });
+
+    const editor = body.createDiv({ cls: 'review-editor' });
+    editor.createEl('h5', { text: '교사관찰기록' });
+    const textArea = editor.createEl('textarea', { cls: 'review-textarea' });
+    textArea.value = item.record.observation;
+    const countEl = editor.createDiv({ cls: 'review-count' });
+    this.updateCount(item.record, countEl);
+    const violationsEl = editor.createDiv({ cls: 'review-violations' });
+    this.updateViolations(item.record, violationsEl);
+
+    textArea.addEventListener('input', () => {
+      const observation = textArea.value;
+      item.record.observation = observation;
+      item.record.charCount = countChars(observation);
+      item.record.byteCount = countBytes(observation);
+      const lengthIssue = checkLengthBudget(observation, this.budget);
+      if (lengthIssue) {
+        item.record.lengthIssue = lengthIssue;
+      } else {
+        delete item.record.lengthIssue;
+      }
+      this.updateCount(item.record, countEl);
+      this.updateViolations(item.record, violationsEl);
+    });
+
+    if (item.record.candidates && item.record.candidates.length > 1) {
+      this.renderCandidates(item, item.record.candidates, card, textArea);
+    }
+
+    const actions = card.createDiv({ cls: 'review-actions' });
+    const acceptBtn = actions.createEl('button', { text: '✓ 승인' });
+    acceptBtn.addEventListener('click', () => {
+      item.status = 'accepted';
+      this.refreshList();
+    });
+
+    const rejectBtn = actions.createEl('button', { text: '✗ 제외' });
+    rejectBtn.addEventListener('click', () => {
+      item.status = 'rejected';
+      this.refreshList();
+    });
+
+    const addRegenerateButton = (label: string, getInstruction: () => string | undefined) => {
+      const button = actions.createEl('button', { text: label });
+      button.addEventListener('click', async () => {
+        button.disabled = true;
+        button.setText('생성 중...');
+        try {
+          item.record = await this.regenerate(item.record, getInstruction());
+          item.status = 'pending';
+          this.refreshList();
+        } catch (error) {
+          new Notice(`다시 생성 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+          button.disabled = false;
+          button.setText(label);
+        }
+      });
+    };
+
+    addRegenerateButton('↻ 다시 생성', () => undefined);
+    if (getRecordViolations(item.record).length > 0) {
+      addRegenerateButton('⚠️ 위반 고쳐 다시 생성', () => {
+        const violations = getRecordViolations(item.record);
+        return violations.length > 0 ? buildComplianceInstruction(violations) : undefined;
+      });
+    }
+  }
+
+  /**
+   * 후보를 나란히 표시 (글자 수와 점검 결과를 함께 보고 통째로 고르거나 일부만 가져옴)
+   */
+  renderCandidates(item: ReviewItem, candidates: RecordCandidate[], card: HTMLElement, textArea: HTMLTextAreaElement) {
+    const section = card.createDiv({ cls: 'review-candidates' });
+    section.createEl('h5', {
+      text: `후보 ${candidates.length}개 · 일부만 쓰려면 후보 글을 드래그한 뒤 '선택한 부분 넣기'를 누르세요`,
+    });
+    const list = section.createDiv({ cls: 'review-candidate-list' });
+    const bestScore = Math.min(...candidates.map((candidate) => candidate.score));
+
+    candidates.forEach((candidate, index) => {
+      const selected = candidate.record.observation === item.record.observation;
+      const cardEl = list.createDiv({ cls: 'review-candidate' });
+      cardEl.toggleClass('review-candidate-selected', selected);
+
+      const header = cardEl.createDiv({ cls: 'review-candidate-header' });
+      header.createSpan({ text: `${index + 1}. ${candidate.label}`, cls: 'review-candidate-label' });
+      if (candidate.score === bestScore) {
+        header.createSpan({ text: '추천', cls: 'review-candidate-badge' });
+      }
+      if (selected) {
+        header.createSpan({ text: '선택됨', cls: 'review-candidate-badge' });
+      }
+      cardEl.createDiv({
+        text: `온도 ${candidate.temperature} · ${formatRecordModel(candidate.record)}`,
+        cls: 'review-candidate-meta',
+      });
+
+      const countEl = cardEl.createDiv({ cls: 'review-count' });
+      this.updateCount(candidate.record, countEl);
+      this.updateViolations(candidate.record, cardEl.createDiv({ cls: 'review-violations' }));
+      const textEl = cardEl.createDiv({ text: candidate.record.observation, cls: 'review-candidate-text' });
+
+      const actions = cardEl.createDiv({ cls: 'review-candidate-actions' });
+      const pickBtn = actions.createEl('button', { text: '이 후보 선택' });
+      pickBtn.disabled = selected;
+      pickBtn.addEventListener('click', () => {
+        item.record = selectCandidate(candidate, candidates);
+        item.status = 'pending';
+        this.refreshList();
+      });
+
+      // 버튼을 누를 때 드래그한 선택이 풀리지 않도록 mousedown에서 처리
+      const spliceBtn = actions.createEl('button', { text: '선택한 부분 넣기' });
+      spliceBtn.addEventListener('mousedown', (event) => {
+        event.preventDefault();
+        const selection = window.getSelection();
+        const text = selection?.toString().trim() || '';
+        if (!text || !selection?.anchorNode || !textEl.contains(selection.anchorNode)) {
+          new Notice('이 후보의 글에서 넣을 부분을 먼저 드래그해서 선택해주세요.');
+          return;
+        }
+        // 교사관찰기록 칸의 커서 위치(또는 선택한 부분)에 넣음
+        textArea.setRangeText(text, textArea.selectionStart, textArea.selectionEnd, 'end');
+        textArea.dispatchEvent(new Event('input'));
+        textArea.focus();
+      });
+    });
+  }
+
+  /**
+   * 기재요령 위반과 근거 없는 사실 표시 (문제가 된 부분을 강조)
+   */
+  updateViolations(record: ObservationRecord, violationsEl: HTMLElement) {
+    violationsEl.empty();
+    const addRow = (label: string, text: string, message: string) => {
+      const row = violationsEl.createDiv({ cls: 'review-violation' });
+      row.createSpan({ text: `${label} ` });
+      row.createEl('mark', { text });
+      row.createSpan({ text: ` ${message}`, cls: 'review-violation-message' });
+    };
+    for (const violation of getRecordViolations(record)) {
+      addRow(COMPLIANCE_RULE_LABELS[violation.rule], violation.text, violation.message);
+    }
+    for (const claim of getUngroundedClaims(record)) {
+      addRow(`근거 없는 ${claim.kind}`, claim.text, '활동내용에 없는 내용인지 확인');
+    }
+  }
+
+  updateCount(record: ObservationRecord, countEl: HTMLElement) {
+    const limit = this.budget.maxBytes > 0 ? ` / 최대 ${this.budget.maxBytes}바이트` : '';
+    const warning = record.lengthIssue ? ` ⚠️ ${record.lengthIssue}` : '';
+    countEl.setText(
+      `${record.charCount}자 · ${record.byteCount}바이트${limit} (목표 ${this.budget.targetChars}자)${warning}`
+    );
+    countEl.toggleClass('review-count-warning', !!record.lengthIssue);
+  }
+
+  updateSummary() {
+    if (!this.summaryEl) return;
+    const count = (status: ReviewStatus) => this.items.filter((item) => item.status === status).length;
+    this.summaryEl.setText(`승인 ${count('accepted')} · 제외 ${count('rejected')} · 대기 ${count('pending')}`);
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+    if (!this.saved) {
+      this.onDiscard();
+    }
+  }
+}
+
+// ==================== History Modal ====================
+
+/**
+ * 한 학생 교사관찰기록의 버전 이력을 보고, 두 버전을 비교하고, 예전 버전을 복원하는 Modal
+ */
+class HistoryModal extends Modal {
+  record: ObservationRecord;
+  budget: LengthBudget;
+  getPresetName: (id: string) => string;
+  onRestore: (version: RecordVersion) => Promise<void>;
+  fromIndex: number;
+  toIndex: number;
+  diffEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    record: ObservationRecord,
+    budget: LengthBudget,
+    getPresetName: (id: string) => string,
+    onRestore: (version: RecordVersion) => Promise<void>
+  ) {
+    super(app);
+    this.record = record;
+    this.budget = budget;
+    this.getPresetName = getPresetName;
+    this.onRestore = onRestore;
+    const count = record.history?.length || 0;
+    this.toIndex = Math.max(count - 1, 0);
+    this.fromIndex = Math.max(count - 2, 0);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const history = this.record.history || [];
+    contentEl.empty();
+    this.modalEl.addClass('student-activity-review-modal-container');
+    contentEl.addClass('student-activity-history-modal');
+
+    contentEl.createEl('h2', { text: `${this.record.studentId} ${this.record.studentName} 기록 이력` });
+    if (history.length === 0) {
+      contentEl.createEl('p', { text: '저장된 이력이 없습니다.', cls: 'student-activity-description' });
+      return;
+    }
+
+    // 버전 비교
+    contentEl.createEl('h4', { text: '버전 비교' });
+    const options: Record<string, string> = {};
+    history.forEach((version, index) => {
+      options[String(index)] = this.getVersionTitle(version, index);
+    });
+    new Setting(contentEl).setName('이전 버전').addDropdown((dropdown) =>
+      dropdown
+        .addOptions(options)
+        .setValue(String(this.fromIndex))
+        .onChange((value) => {
+          this.fromIndex = parseInt(value, 10);
+          this.renderDiff();
+        })
+    );
+    new Setting(contentEl).setName('비교할 버전').addDropdown((dropdown) =>
+      dropdown
+        .addOptions(options)
+        .setValue(String(this.toIndex))
+        .onChange((value) => {
+          this.toIndex = parseInt(value, 10);
+          this.renderDiff();
+        })
+    );
+    this.diffEl = contentEl.createDiv({ cls: 'history-diff' });
+    this.renderDiff();
+
+    // 버전 목록 (최신순)
+    contentEl.createEl('h4', { text: '버전 목록' });
+    const listEl = contentEl.createDiv({ cls: 'history-list' });
+    for (let index = history.length - 1; index >= 0; index--) {
+      this.renderVersion(listEl, history[index], index, index === history.length - 1);
+    }
+  }
+
+  getVersionTitle(version: RecordVersion, index: number): string {
+    const time = version.createdAt ? new Date(version.createdAt).toLocaleString('ko-KR') : '시각 정보 없음';
+    return `#${index + 1} ${RECORD_VERSION_LABELS[version.source]} · ${time}`;
+  }
+
+  formatCounts(observation: string): string {
+    const limit = this.budget.maxBytes > 0 ? ` / 최대 ${this.budget.maxBytes}바이트` : '';
+    return `${countChars(observation)}자 · ${countBytes(observation)}바이트${limit}`;
+  }
+
+  renderDiff() {
+    if (!this.diffEl) return;
+    const history = this.record.history || [];
+    const from = history[this.fromIndex];
+    const to = history[this.toIndex];
+    this.diffEl.empty();
+    if (!from || !to) return;
+
+    this.diffEl.createDiv({
+      text: `#${this.fromIndex + 1}: ${this.formatCounts(from.observation)} → #${this.toIndex + 1}: ${this.formatCounts(to.observation)}`,
+      cls: 'history-diff-counts',
+    });
+    const textEl = this.diffEl.createDiv({ cls: 'history-diff-text' });
+    if (from.observation === to.observation) {
+      textEl.setText(to.observation);
+      this.diffEl.createDiv({ text: '두 버전의 내용이 같습니다.', cls: 'history-diff-counts' });
+      return;
+    }
+    for (const part of diffWords(from.observation, to.observation)) {
+      if (part.type === 'added') {
+        textEl.createEl('ins', { text: part.text });
+      } else if (part.type === 'removed') {
+        textEl.createEl('del', { text: part.text });
+      } else {
+        textEl.createSpan({ text: part.text });
+      }
+    }
+  }
+
+  renderVersion(listEl: HTMLElement, version: RecordVersion, index: number, isCurrent: boolean) {
+    const card = listEl.createDiv({ cls: 'history-card' });
+    const header = card.createDiv({ cls: 'review-card-header' });
+    header.createSpan({ text: this.getVersionTitle(version, index), cls: 'review-student' });
+    if (isCurrent) {
+      header.createSpan({ text: '현재', cls: 'review-status-badge' });
+    }
+
+    const details: string[] = [];
+    if (version.model) details.push(`모델: ${version.model}`);
+    if (version.presetId) details.push(`프리셋: ${this.getPresetName(version.presetId)}`);
+    if (version.instruction) details.push(`추가 요청: ${version.instruction}`);
+    details.push(this.formatCounts(version.observation));
+    card.createDiv({ text: details.join(' · '), cls: 'history-details' });
+    card.createDiv({ text: version.observation, cls: 'history-observation' });
+
+    if (isCurrent) return;
+    const actions = card.createDiv({ cls: 'review-actions' });
+    const restoreBtn = actions.createEl('button', { text: '이 버전으로 복원' });
+    restoreBtn.addEventListener('click', async () => {
+      restoreBtn.disabled = true;
+      try {
+        await this.onRestore(version);
+        this.close();
+      } catch (error) {
+        new Notice(`복원 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+        restoreBtn.disabled = false;
+      }
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Instruction Modal ====================
+
+/**
+ * 다시 생성할 때 추가 요청을 입력받는 Modal (예: "리더십 강조")
+ */
+class InstructionModal extends Modal {
+  title: string;
+  instruction: string = '';
+  onSubmit: (instruction: string) => void;
+
+  constructor(app: App, title: string, onSubmit: (instruction: string) => void) {
+    super(app);
+    this.title = title;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('student-activity-modal');
+
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', {
+      text: '추가로 반영할 요청을 입력하세요. 비워두면 같은 조건으로 다시 생성합니다.',
+      cls: 'student-activity-description',
+    });
+
+    new Setting(contentEl).setName('추가 요청').addText((text) => {
+      text.setPlaceholder('예: 리더십 강조, 탐구 과정 중심으로').onChange((value) => {
+        this.instruction = value.trim();
+      });
+      text.inputEl.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          this.submit();
+        }
+      });
+      text.inputEl.style.width = '100%';
+    });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    const cancelBtn = buttonContainer.createEl('button', { text: '취소', cls: 'student-activity-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const submitBtn = buttonContainer.createEl('button', { text: '다시 생성', cls: 'mod-cta' });
+    submitBtn.addEventListener('click', () => this.submit());
+  }
+
+  submit() {
+    this.close();
+    this.onSubmit(this.instruction);
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Estimate Modal ====================
+
+/**
+ * 변환 시작 전 예상 토큰 수와 비용을 보여주고 확인받는 Modal
+ */
+class EstimateModal extends Modal {
+  estimate: UsageEstimate;
+  modelLabel: string;
+  onConfirm: () => void;
+
+  constructor(app: App, estimate: UsageEstimate, modelLabel: string, onConfirm: () => void) {
+    super(app);
+    this.estimate = estimate;
+    this.modelLabel = modelLabel;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('student-activity-modal');
+
+    contentEl.createEl('h2', { text: '변환 예상 비용' });
+    const rows: [string, string][] = [
+      ['모델', this.modelLabel],
+      [
+        '요청 수',
+        `${this.estimate.requests}회 (학생당 ${this.estimate.requestsPerStudent}회${
+          this.estimate.requestsPerStudent > 1 ? `, 후보 ${this.estimate.requestsPerStudent}개` : ''
+        }, 분량 조정 요청은 별도)`,
+      ],
+      ['입력', `약 ${formatTokens(this.estimate.inputTokens)}`],
+      ['출력', `약 ${formatTokens(this.estimate.outputTokens)}`],
+      ['예상 비용', formatCost(this.estimate.cost)],
+    ];
+    const table = contentEl.createEl('table', { cls: 'student-activity-estimate' });
+    for (const [label, value] of rows) {
+      const tr = table.createEl('tr');
+      tr.createEl('th', { text: label });
+      tr.createEl('td', { text: value });
+    }
+    contentEl.createEl('p', {
+      text: '한글 1글자를 1토큰으로 추정한 값입니다. 분량 조정 요청, 재시도, 추론 모델의 추론 토큰이 더해지면 실제 비용은 더 나올 수 있습니다.',
+      cls: 'student-activity-description',
+    });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    const cancelBtn = buttonContainer.createEl('button', { text: '취소', cls: 'student-activity-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const submitBtn = buttonContainer.createEl('button', { text: '변환 시작', cls: 'mod-cta' });
+    submitBtn.addEventListener('click', () => {
+      this.close();
+      this.onConfirm();
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Preset Edit Modal ====================
+
+/**
+ * 프롬프트 프리셋 편집 Modal (이름, 기본 분량, 시스템/사용자 프롬프트)
+ */
+class PresetEditModal extends Modal {
+  preset: PromptPreset;
+  onSave: (preset: PromptPreset) => Promise<void>;
+
+  constructor(app: App, preset: PromptPreset, onSave: (preset: PromptPreset) => Promise<void>) {
+    super(app);
+    this.preset = { ...preset };
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('student-activity-modal');
+
+    contentEl.createEl('h2', { text: '프롬프트 프리셋 편집' });
+    contentEl.createEl('p', {
+      text: '사용자 프롬프트에는 {{activity}}, {{target}}, {{maxBytes}}, {{subject}}, {{studentId}}, {{studentName}}를 쓸 수 있습니다. 값이 비어 있는 자리표시자가 있는 줄은 빠집니다.',
+      cls: 'student-activity-description',
+    });
+
+    new Setting(contentEl).setName('이름').addText((text) =>
+      text.setValue(this.preset.name).onChange((value) => {
+        this.preset.name = value.trim();
+      })
+    );
+
+    new Setting(contentEl).setName('목표 글자 수').addText((text) => {
+      text.setValue(String(this.preset.targetCharCount)).onChange((value) => {
+        const num = parseInt(value);
+        if (!isNaN(num) && num > 0) this.preset.targetCharCount = num;
+      });
+      text.inputEl.type = 'number';
+    });
+
+    new Setting(contentEl)
+      .setName('최대 바이트 수')
+      .setDesc('0이면 제한하지 않습니다.')
+      .addText((text) => {
+        text.setValue(String(this.preset.maxByteCount)).onChange((value) => {
+          const num = parseInt(value);
+          if (!isNaN(num) && num >= 0) this.preset.maxByteCount = num;
+        });
+        text.inputEl.type = 'number';
+      });
+
+    contentEl.createEl('h4', { text: '시스템 프롬프트' });
+    const systemArea = contentEl.createEl('textarea', {
+      cls: 'student-activity-textarea student-activity-preset-prompt',
+      attr: { rows: '10' },
+    });
+    systemArea.value = this.preset.systemPrompt;
+    systemArea.addEventListener('input', () => {
+      this.preset.systemPrompt = systemArea.value;
+    });
+
+    contentEl.createEl('h4', { text: '사용자 프롬프트' });
+    const userArea = contentEl.createEl('textarea', {
+      cls: 'student-activity-textarea student-activity-preset-prompt',
+      attr: { rows: '10' },
+    });
+    userArea.value = this.preset.userPromptTemplate;
+    userArea.addEventListener('input', () => {
+      this.preset.userPromptTemplate = userArea.value;
+    });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    const cancelBtn = buttonContainer.createEl('button', { text: '취소', cls: 'student-activity-cancel-btn' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', { text: '저장', cls: 'mod-cta' });
+    saveBtn.addEventListener('click', async () => {
+      if (!this.preset.name) {
+        new Notice('프리셋 이름을 입력해주세요.');
+        return;
+      }
+      if (!this.preset.systemPrompt.trim() || !this.preset.userPromptTemplate.includes('{{activity}}')) {
+        new Notice('시스템 프롬프트와 {{activity}}가 들어간 사용자 프롬프트가 필요합니다.');
+        return;
+      }
+      try {
+        await this.onSave(this.preset);
+        this.close();
+      } catch (error) {
+        new Notice(`프리셋 저장 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+      }
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// ==================== Settings Tab ====================
+
+class StudentActivitySettingTab extends PluginSettingTab {
+  plugin: StudentActivityPlugin;
+  modelDropdown: any = null;
+
+  constructor(app: App, plugin: StudentActivityPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  getProviderName(provider: string): string {
+    return getProvider(provider)?.vendor || provider;
+  }
+
+  /**
+   * 학급 명부 가져오기와 학급별 삭제
+   */
+  renderRoster(containerEl: HTMLElement) {
+    containerEl.empty();
+    const { roster } = this.plugin.settings;
+    const classes = getRosterClasses(roster);
+
+    new Setting(containerEl)
+      .setName('명부 가져오기')
+      .setDesc(
+        classes.length > 0
+          ? `${classes.length}개 학급, ${roster.length}명이 등록되어 있습니다. 변환할 때 학번·이름을 명부와 대조합니다.`
+          : '학급 명부를 등록하면 변환할 때 학번·이름 오타와 빠진 학생을 알려줍니다.'
+      )
+      .addButton((button) =>
+        button.setButtonText('명부 가져오기').onClick(() => {
+          new RosterImportModal(this.app, async (students) => {
+            this.plugin.settings.roster = mergeRoster(this.plugin.settings.roster, students);
+            await this.plugin.saveSettings();
+            new Notice(`명부를 가져왔습니다: ${students.length}명`);
+            this.renderRoster(containerEl);
+          }).open();
+        })
+      );
+
+    for (const classKey of classes) {
+      const count = roster.filter((student) => getRosterClassKey(student) === classKey).length;
+      new Setting(containerEl)
+        .setName(classKey)
+        .setDesc(`${count}명`)
+        .addButton((button) =>
+          button.setButtonText('삭제').onClick(async () => {
+            this.plugin.settings.roster = this.plugin.settings.roster.filter(
+              (student) => getRosterClassKey(student) !== classKey
+            );
+            await this.plugin.saveSettings();
+            this.renderRoster(containerEl);
+          })
+        );
+    }
+  }
+
+  /**
+   * 대체 모델 목록 (순서 바꾸기, 연결 테스트, 삭제)
+   */
+  renderFallbacks(containerEl: HTMLElement) {
+    containerEl.empty();
+    const fallbacks = this.plugin.settings.fallbackModels;
+    const update = async (next: FallbackModel[], rerender: boolean = true) => {
+      this.plugin.settings.fallbackModels = next;
+      await this.plugin.saveSettings();
+      if (rerender) this.renderFallbacks(containerEl);
+    };
+    // 모델 ID를 입력하는 동안에는 다시 그리지 않으므로 항상 저장된 목록을 기준으로 바꿈
+    const replace = (index: number, entry: FallbackModel) =>
+      this.plugin.settings.fallbackModels.map((existing, i) => (i === index ? entry : existing));
+    const move = (index: number, offset: number) => {
+      const next = [...this.plugin.settings.fallbackModels];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    };
+
+    fallbacks.forEach((entry, index) => {
+      const provider = getProvider(entry.provider);
+      const models = provider ? this.plugin.getModelOptions(provider) : [];
+      const missingKey = provider?.requiresApiKey && !this.plugin.keyStore.get(entry.provider);
+      const setting = new Setting(containerEl)
+        .setName(`${index + 1}순위`)
+        .setDesc(missingKey ? '⚠️ 이 제공자의 API 키가 없어 건너뜁니다. 위에서 제공자를 골라 키를 입력해주세요.' : '');
+
+      setting.addDropdown((dropdown) => {
+        for (const p of PROVIDERS) {
+          dropdown.addOption(p.id, p.label);
+        }
+        dropdown.setValue(entry.provider).onChange(async (value) => {
+          await update(replace(index, { provider: value, modelId: getProvider(value)?.defaultModel || '' }));
+        });
+      });
+
+      if (models.length > 0) {
+        setting.addDropdown((dropdown) => {
+          for (const model of models) {
+            dropdown.addOption(model.id, model.name);
+          }
+          if (entry.modelId && !models.some((m) => m.id === entry.modelId)) {
+            dropdown.addOption(entry.modelId, `${entry.modelId} (직접 입력)`);
+          }
+          dropdown.setValue(entry.modelId || provider?.defaultModel || '').onChange(async (value) => {
+            await update(replace(index, { ...entry, modelId: value }));
+          });
+        });
+      } else {
+        setting.addText((text) =>
+          text
+            .setPlaceholder('모델 ID')
+            .setValue(entry.modelId)
+            .onChange(async (value) => {
+              await update(replace(index, { ...entry, modelId: value.trim() }), false);
+            })
+        );
+      }
+
+      setting
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-up')
+            .setTooltip('위로')
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              if (index > 0) await update(move(index, -1));
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-down')
+            .setTooltip('아래로')
+            .setDisabled(index === fallbacks.length - 1)
+            .onClick(async () => {
+              if (index < fallbacks.length - 1) await update(move(index, 1));
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('plug-zap')
+            .setTooltip('연결 테스트')
+            .onClick(async () => {
+              const result = await this.plugin.testConnection(this.plugin.settings.fallbackModels[index]);
+              new Notice(result.message);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('삭제')
+            .onClick(async () => {
+              await update(this.plugin.settings.fallbackModels.filter((_, i) => i !== index));
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText('대체 모델 추가').onClick(async () => {
+        const provider = getProvider(this.plugin.settings.apiProvider) || PROVIDERS[0];
+        await update([...this.plugin.settings.fallbackModels, { provider: provider.id, modelId: provider.defaultModel }]);
+      })
+    );
+  }
+
+  /**
+   * 월별·제공자별 누적 사용량 (AI 응답에 포함된 실제 토큰 수 기준)
+   */
+  renderUsage(containerEl: HTMLElement) {
+    containerEl.empty();
+    const ledger = [...this.plugin.settings.usageLedger].sort(
+      (a, b) => b.month.localeCompare(a.month) || a.provider.localeCompare(b.provider)
+    );
+
+    new Setting(containerEl)
+      .setName('누적 사용량')
+      .setDesc(
+        ledger.length > 0
+          ? '비용은 공개된 표준 요금으로 계산한 값(USD)이며, 가격 정보가 없는 모델은 포함되지 않습니다.'
+          : '아직 기록된 사용량이 없습니다.'
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('기록 지우기')
+          .setDisabled(ledger.length === 0)
+          .onClick(async () => {
+            this.plugin.settings.usageLedger = [];
+            await this.plugin.saveSettings();
+            this.renderUsage(containerEl);
+          })
+      );
+    if (ledger.length === 0) return;
+
+    const table = containerEl.createEl('table', { cls: 'student-activity-usage-table' });
+    const header = table.createEl('tr');
+    for (const label of ['월', '제공자', '요청 수', '입력 토큰', '출력 토큰', '비용']) {
+      header.createEl('th', { text: label });
+    }
+    for (const entry of ledger) {
+      const row = table.createEl('tr');
+      row.createEl('td', { text: entry.month });
+      row.createEl('td', { text: this.getProviderName(entry.provider) });
+      row.createEl('td', { text: entry.requests.toLocaleString('ko-KR') });
+      row.createEl('td', { text: entry.inputTokens.toLocaleString('ko-KR') });
+      row.createEl('td', { text: entry.outputTokens.toLocaleString('ko-KR') });
+      row.createEl('td', { text: formatCost(entry.cost) });
+    }
+  }
+
+  /**
+   * 기본 프리셋 선택과 프리셋 목록 (편집하면 프리셋 폴더에 파일로 저장)
+   */
+  renderPresets(containerEl: HTMLElement) {
+    containerEl.empty();
+    const { presets } = this.plugin;
+    const editPreset = (preset: PromptPreset) => {
+      new PresetEditModal(this.app, preset, async (edited) => {
+        await this.plugin.savePreset(edited);
+        new Notice(`프리셋을 저장했습니다: ${edited.name}`);
+        this.renderPresets(containerEl);
+      }).open();
+    };
+
+    new Setting(containerEl)
+      .setName('기본 프리셋')
+      .setDesc('변환 창에서 처음 선택되는 프리셋입니다. 선택 영역 변환에도 사용됩니다.')
+      .addDropdown((dropdown) => {
+        for (const preset of presets) {
+          dropdown.addOption(preset.id, preset.name);
+        }
+        dropdown.setValue(this.plugin.getPreset(this.plugin.settings.defaultPresetId).id);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.defaultPresetId = value;
+          await this.plugin.saveSettings();
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText('새 프리셋').onClick(() => {
+          const base = this.plugin.getPreset(this.plugin.settings.defaultPresetId);
+          editPreset({ ...base, id: `custom-${Date.now()}`, name: `${base.name} (사본)`, filePath: undefined });
+        })
+      );
+
+    for (const preset of presets) {
+      const limit = preset.maxByteCount > 0 ? `, 최대 ${preset.maxByteCount}바이트` : '';
+      new Setting(containerEl)
+        .setName(preset.name)
+        .setDesc(`${preset.targetCharCount}자${limit} · ${preset.filePath || '내장'}`)
+        .addButton((button) => button.setButtonText('편집').onClick(() => editPreset(preset)));
+    }
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    containerEl.createEl('h1', { text: '학생활동 → 교사관찰기록 변환 설정' });
+
+    // API 제공자 선택
+    new Setting(containerEl)
+      .setName('AI 제공자')
+      .setDesc('사용할 AI API 제공자를 선택합니다.')
+      .addDropdown((dropdown) => {
+        for (const provider of PROVIDERS) {
+          dropdown.addOption(provider.id, provider.label);
+        }
+        dropdown.setValue(this.plugin.settings.apiProvider);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.apiProvider = value;
+          // 제공자 변경 시 기본 모델로 설정
+          this.plugin.settings.modelId = getProvider(value)?.defaultModel || '';
+          await this.plugin.saveSettings();
+          this.display(); // 설정 화면 새로고침
+        });
+      });
+
+    const currentProvider = this.plugin.settings.apiProvider;
+    const provider = getProvider(currentProvider);
+
+    // 서버 주소 (OpenAI 호환 로컬 서버 등)
+    if (provider?.requiresBaseUrl) {
+      new Setting(containerEl)
+        .setName('서버 주소')
+        .setDesc('OpenAI 호환 API의 기본 주소를 입력합니다. (예: Ollama http://localhost:11434/v1, LM Studio http://localhost:1234/v1)')
+        .addText((text) =>
+          text
+            .setPlaceholder(provider.defaultBaseUrl || 'http://localhost:8000/v1')
+            .setValue(this.plugin.settings.customBaseUrl)
+            .onChange(async (value) => {
+              this.plugin.settings.customBaseUrl = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // API 키 (제공자별로 이 기기에 암호화해서 저장)
+    const keySetting = new Setting(containerEl)
+      .setName('API 키')
+      .setDesc(
+        provider?.requiresApiKey === false
+          ? `${this.getProviderName(currentProvider)} API 키를 입력합니다. (필요한 경우에만)`
+          : `${this.getProviderName(currentProvider)} API 키를 입력합니다. 제공자별로 따로 저장되며, 설정 파일(data.json)이 아닌 이 기기에 암호화해서 보관합니다.`
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder(provider?.keyPlaceholder || 'API 키')
+          .setValue(this.plugin.keyStore.get(currentProvider))
+          .onChange(async (value) => {
+            try {
+              await this.plugin.keyStore.set(currentProvider, value.trim());
+            } catch (error) {
+              console.error('Failed to save API keys:', error);
+              new Notice(
+                `API 키를 저장하지 못했습니다. 옵시디언을 다시 시작하면 다시 입력해야 합니다. (${error instanceof Error ? error.message : '알 수 없는 오류'})`
+              );
+            }
+          });
+        text.inputEl.type = 'password';
+      })
+      .addButton((button) =>
+        button.setButtonText('연결 테스트').onClick(async () => {
+          button.setDisabled(true);
+          button.setButtonText('확인 중...');
+          const result = await this.plugin.testConnection();
+          button.setDisabled(false);
+          button.setButtonText('연결 테스트');
+          keySetting.descEl.empty();
+          keySetting.descEl.createSpan({
+            text: result.ok ? `✅ ${result.message}` : `❌ ${result.message}`,
+            cls: result.ok ? 'student-activity-test-success' : 'student-activity-test-error',
+          });
+        })
+      );
+
+    // 모델 (알려진 목록과 새로고침으로 가져온 목록, 목록에 없는 ID도 그대로 사용)
+    this.modelDropdown = null;
+    const models = provider ? this.plugin.getModelOptions(provider) : [];
+    const modelId = this.plugin.settings.modelId;
+    const cache = this.plugin.settings.modelCache[currentProvider];
+    const modelSetting = new Setting(containerEl)
+      .setName('모델')
+      .setDesc(
+        cache
+          ? `${this.getProviderName(currentProvider)}에서 사용할 AI 모델을 선택합니다. (목록 새로고침: ${new Date(cache.fetchedAt).toLocaleString('ko-KR')}, ${cache.models.length}개)`
+          : `${this.getProviderName(currentProvider)}에서 사용할 AI 모델을 선택합니다.`
+      );
+
+    if (models.length > 0) {
+      modelSetting.addDropdown((dropdown) => {
+        this.modelDropdown = dropdown;
+        for (const model of models) {
+          dropdown.addOption(model.id, model.name);
+        }
+        // 목록에 없는 모델 ID도 사용자가 고른 그대로 유지
+        if (modelId && !models.some((m) => m.id === modelId)) {
+          dropdown.addOption(modelId, `${modelId} (직접 입력)`);
+        }
+        dropdown.setValue(modelId || provider?.defaultModel || '');
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.modelId = value;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+    }
+
+    if (provider?.listModels) {
+      modelSetting.addButton((button) =>
+        button.setButtonText('목록 새로고침').onClick(async () => {
+          button.setDisabled(true);
+          button.setButtonText('가져오는 중...');
+          const result = await this.plugin.refreshModels();
+          new Notice(result.message);
+          this.display();
+        })
+      );
+    }
+
+    new Setting(containerEl)
+      .setName('모델 ID 직접 입력')
+      .setDesc(
+        models.length > 0
+          ? '목록에 없는 새 모델도 ID를 입력하면 그대로 사용합니다.'
+          : `${this.getProviderName(currentProvider)}에서 사용할 모델 ID를 입력합니다. (예: llama3.1:8b, qwen2.5:14b)`
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder(provider?.defaultModel || '모델 ID')
+          .setValue(modelId)
+          .onChange(async (value) => {
+            this.plugin.settings.modelId = value.trim();
+            await this.plugin.saveSettings();
+          });
+        // 입력을 마치면 드롭다운에도 반영
+        text.inputEl.addEventListener('blur', () => {
+          if (this.modelDropdown && this.modelDropdown.getValue() !== this.plugin.settings.modelId) {
+            this.display();
+          }
+        });
+      });
+
+    // 기본 글자 수
+    new Setting(containerEl)
+      .setName('기본 목표 글자 수')
+      .setDesc('내장 세특 프리셋과, 분량이 적히지 않은 프리셋 파일에 쓰는 목표 글자 수입니다. 다른 프리셋을 고르면 그 프리셋의 분량이 적용됩니다.')
+      .addText((text) => {
+        text
+          .setPlaceholder('500')
+          .setValue(String(this.plugin.settings.targetCharCount))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num > 0) {
+              this.plugin.settings.targetCharCount = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    // 최대 바이트 수
+    new Setting(containerEl)
+      .setName('기본 최대 바이트 수')
+      .setDesc('내장 세특 프리셋과, 한도가 적히지 않은 프리셋 파일에 쓰는 NEIS 입력 한도입니다. (예: 세특 1500바이트) 0이면 제한하지 않습니다.')
+      .addText((text) => {
+        text
+          .setPlaceholder('1500')
+          .setValue(String(this.plugin.settings.maxByteCount))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.maxByteCount = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('분량 조정 재요청 횟수')
+      .setDesc('결과가 목표 글자 수(±10%)나 최대 바이트 수를 벗어나면 분량만 고쳐 달라고 다시 요청하는 최대 횟수입니다.')
+      .addText((text) => {
+        text
+          .setPlaceholder('2')
+          .setValue(String(this.plugin.settings.maxLengthRevisions))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.maxLengthRevisions = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text.inputEl.max = '5';
+      });
+
+    // 저장 전 검토
+    new Setting(containerEl)
+      .setName('저장 전 검토')
+      .setDesc('변환이 끝나면 검토 창에서 기록을 고치고 승인한 기록만 결과 노트에 저장합니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.reviewBeforeSave).onChange(async (value) => {
+          this.plugin.settings.reviewBeforeSave = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // 학생별 후보 수
+    new Setting(containerEl)
+      .setName('학생별 후보 수')
+      .setDesc(
+        `한 학생에 대해 온도와 강조점을 바꿔 가며 후보를 여러 개 생성하고, 검토 창에서 나란히 비교해 고릅니다. 1이면 후보 없이 한 번만 생성합니다. (최대 ${MAX_CANDIDATES}개, 요청 수와 비용이 후보 수만큼 늘어남)`
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder('1')
+          .setValue(String(this.plugin.settings.candidateCount))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 1 && num <= MAX_CANDIDATES) {
+              this.plugin.settings.candidateCount = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text.inputEl.max = String(MAX_CANDIDATES);
+      });
+
+    new Setting(containerEl)
+      .setName('후보 자동 순위')
+      .setDesc('목표 글자 수에 가깝고 기재요령 위반과 근거 확인이 필요한 표현이 적은 후보를 앞에 두고 기본으로 선택합니다. 검토 없이 저장할 때는 이 후보가 저장됩니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.autoRankCandidates).onChange(async (value) => {
+          this.plugin.settings.autoRankCandidates = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // 학생별로 합치기
+    new Setting(containerEl)
+      .setName('학생별로 합치기')
+      .setDesc('한 학생의 여러 활동 행을 하나의 교사관찰기록으로 종합합니다. 변환 창에서 매번 바꿀 수 있고, 선택 영역 변환에는 이 설정이 적용됩니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.aggregateByStudent).onChange(async (value) => {
+          this.plugin.settings.aggregateByStudent = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('과목/영역별로 나누어 합치기')
+      .setDesc('합칠 때 과목/영역 열이 있으면 과목/영역마다 따로 기록을 만듭니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.aggregateBySubject).onChange(async (value) => {
+          this.plugin.settings.aggregateBySubject = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // 출력 폴더
+    new Setting(containerEl)
+      .setName('결과 저장 폴더')
+      .setDesc('변환 결과를 저장할 폴더 경로 (비워두면 Vault 루트에 저장)')
+      .addText((text) =>
+        text
+          .setPlaceholder('교사관찰기록')
+          .setValue(this.plugin.settings.outputFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.outputFolder = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // 학급 명부
+    containerEl.createEl('h2', { text: '학급 명부' });
+    const rosterContainer = containerEl.createDiv({ cls: 'student-activity-roster-list' });
+    this.renderRoster(rosterContainer);
+
+    // 프롬프트 프리셋
+    containerEl.createEl('h2', { text: '프롬프트 프리셋' });
+
+    new Setting(containerEl)
+      .setName('프리셋 폴더')
+      .setDesc('이 폴더의 마크다운 파일을 프리셋으로 불러옵니다. 내장 프리셋과 id가 같으면 파일 내용이 우선합니다.')
+      .addText((text) =>
+        text
+          .setPlaceholder('프롬프트 프리셋')
+          .setValue(this.plugin.settings.presetFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.presetFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const presetContainer = containerEl.createDiv({ cls: 'student-activity-preset-list' });
+    this.plugin.loadPresets().then(() => this.renderPresets(presetContainer));
+
+    // 개인정보 보호
+    containerEl.createEl('h2', { text: '개인정보 보호' });
+
+    new Setting(containerEl)
+      .setName('학번/이름 가명처리')
+      .setDesc('AI에 보내기 전에 학번과 이름(활동내용 속 다른 학생 이름 포함)을 [학번1], [학생1] 같은 토큰으로 바꾸고, 결과는 내 컴퓨터에서 원래대로 되돌립니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.pseudonymize).onChange(async (value) => {
+          this.plugin.settings.pseudonymize = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('AI 전송 기록 남기기')
+      .setDesc('AI 제공자에게 실제로 보낸 요청 내용을 결과 저장 폴더의 "AI_전송기록.md"에 남깁니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.auditLog).onChange(async (value) => {
+          this.plugin.settings.auditLog = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // 일괄 처리
+    containerEl.createEl('h2', { text: '일괄 처리' });
+
+    new Setting(containerEl)
+      .setName('동시 요청 수')
+      .setDesc('한 번에 함께 변환할 학생 수입니다. 요금제 한도가 낮으면 1~2로 줄이세요.')
+      .addText((text) => {
+        text
+          .setPlaceholder('3')
+          .setValue(String(this.plugin.settings.concurrency))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num > 0) {
+              this.plugin.settings.concurrency = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text.inputEl.max = '10';
+      });
+
+    new Setting(containerEl)
+      .setName('분당 최대 요청 수')
+      .setDesc('재시도를 포함한 분당 API 요청 수 상한입니다. (0이면 제한 없음)')
+      .addText((text) => {
+        text
+          .setPlaceholder('30')
+          .setValue(String(this.plugin.settings.requestsPerMinute))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.requestsPerMinute = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+      });
+
+    new Setting(containerEl)
+      .setName('최대 재시도 횟수')
+      .setDesc('429(요청 한도 초과)나 5xx 서버 오류가 나면 대기 후 다시 요청합니다. Retry-After 헤더가 있으면 그 시간만큼 기다립니다.')
+      .addText((text) => {
+        text
+          .setPlaceholder('3')
+          .setValue(String(this.plugin.settings.maxRetries))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.maxRetries = num;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text.inputEl.max = '10';
+      });
+
+    new Setting(containerEl)
+      .setName('스트리밍으로 받기')
+      .setDesc('생성 중인 기록을 진행 창에 실시간으로 보여주고, 너무 길어지는 응답은 중간에 멈출 수 있습니다. 스트리밍 연결이 안 되는 서버는 자동으로 한 번에 받습니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.streaming).onChange(async (value) => {
+          this.plugin.settings.streaming = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // 대체 모델
+    containerEl.createEl('h2', { text: '대체 모델' });
+    containerEl.createEl('p', {
+      text: '선택한 모델이 재시도 후에도 실패하면(서버 장애, 사용 한도 초과 등) 그 학생은 아래 모델로 차례대로 다시 생성합니다. 결과 테이블의 "생성 모델"에 실제로 쓴 모델이 기록됩니다.',
+      cls: 'setting-item-description',
+    });
+    const fallbackContainer = containerEl.createDiv({ cls: 'student-activity-fallback-list' });
+    this.renderFallbacks(fallbackContainer);
+
+    // 사용량과 비용
+    containerEl.createEl('h2', { text: '사용량과 비용' });
+
+    new Setting(containerEl)
+      .setName('변환 전 예상 비용 확인')
+      .setDesc('변환을 시작하기 전에 예상 토큰 수와 비용을 보여주고 확인을 받습니다.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.confirmCostEstimate).onChange(async (value) => {
+          this.plugin.settings.confirmCostEstimate = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    const usageContainer = containerEl.createDiv({ cls: 'student-activity-usage' });
+    this.renderUsage(usageContainer);
+
+    // NEIS 글자수/바이트수 안내
+    containerEl.createEl('h2', { text: 'NEIS 글자수/바이트수 계산 기준' });
+    const infoDiv = containerEl.createDiv({ cls: 'student-activity-info' });
+    infoDiv.innerHTML = `
+      <ul>
+        <li><strong>글자 수</strong>: 모든 문자를 1개로 계산 (한글, 영문, 숫자, 공백, 특수문자)</li>
+        <li><strong>바이트 수</strong>:
+          <ul>
+            <li>한글, 한자: 3바이트</li>
+            <li>영문, 숫자, 특수문자, 공백, 줄바꿈: 1바이트</li>
+          </ul>
+        </li>
+      </ul>
+    `;
+  }
+}
+
+// ==================== Main Plugin Class ====================
+
+export default class StudentActivityPlugin extends Plugin {
+  settings: StudentActivityPluginSettings;
+  presets: PromptPreset[] = BUILTIN_PRESETS.slice();
+  checkpointWrite: Promise<void> = Promise.resolve();
+  auditWrite: Promise<void> = Promise.resolve();
+  usageWrite: Promise<void> = Promise.resolve();
+  keyStore: KeyStore;
+  streamUnavailable: Set<string> = new Set();
+
+  async onload(): Promise<void> {
+    console.log('Loading Student Activity to Observation Plugin');
+
+    await this.loadSettings();
+
+    this.addSettingTab(new StudentActivitySettingTab(this.app, this));
+
+    // 결과 노트의 변환 데이터는 JSON 대신 요약으로 표시
+    this.registerMarkdownCodeBlockProcessor(RESULT_DATA_LANGUAGE, (source, el) => {
+      const data = parseResultData(`\`\`\`${RESULT_DATA_LANGUAGE}\n${source.trimEnd()}\n\`\`\``);
+      const summary = el.createDiv({ cls: 'student-activity-result-data' });
+      if (!data) {
+        summary.setText('⚠️ 변환 데이터를 읽을 수 없습니다.');
+        return;
+      }
+      const updated = data.updatedAt ? new Date(data.updatedAt).toLocaleString('ko-KR') : '-';
+      const model = [getProvider(data.provider)?.label || data.provider, data.model].filter((v) => v).join(' · ');
+      summary.setText(
+        `저장된 기록 ${data.records.length}명 · ${model || '모델 정보 없음'} · 프리셋 ${data.presetId || '-'} · 마지막 수정 ${updated}`
+      );
+    });
+
+    // 프리셋 폴더를 읽고, 이전에 중단된 변환이 있으면 안내
+    this.app.workspace.onLayoutReady(async () => {
+      await this.loadPresets();
+      const checkpoint = await this.loadCheckpoint();
+      if (checkpoint) {
+        const done = checkpoint.records.filter((r) => r !== null).length;
+        new Notice(
+          `중단된 교사관찰기록 변환이 있습니다. (${done}/${checkpoint.activities.length}명 완료)\n커맨드 팔레트에서 '중단된 변환 이어하기'를 실행하세요.`,
+          10000
+        );
+      }
+    });
+
+    // 커맨드: Modal 열기
+    this.addCommand({
+      id: 'open-conversion-modal',
+      name: '학생활동 → 교사관찰기록 변환 (Modal)',
+      callback: () => {
+        this.openConversionModal();
+      },
+    });
+
+    // 커맨드: 볼트의 학생 노트에서 가져와 변환
+    this.addCommand({
+      id: 'import-from-notes',
+      name: '노트에서 학생활동 가져와 변환',
+      callback: () => {
+        this.openNoteImportModal();
+      },
+    });
+
+    // 커맨드: 선택 영역에서 변환
+    this.addCommand({
+      id: 'convert-from-selection',
+      name: '선택 영역에서 교사관찰기록 변환',
+      editorCallback: (editor: Editor, view: MarkdownView) => {
+        const selection = editor.getSelection();
+        if (!selection.trim()) {
+          new Notice('텍스트를 선택해주세요.');
+          return;
+        }
+        if (!this.checkProviderSettings()) {
+          return;
+        }
+        this.processConversion(selection, this.getDefaultConversionOptions());
+      },
+    });
+
+    // 커맨드: 중단된 변환 이어하기
+    this.addCommand({
+      id: 'resume-interrupted-conversion',
+      name: '중단된 변환 이어하기',
+      callback: () => {
+        this.resumeConversion();
+      },
+    });
+
+    // 커맨드: 결과 노트에서 현재 행 학생 다시 생성
+    this.addCommand({
+      id: 'regenerate-result-row',
+      name: '결과 노트: 현재 행 학생 다시 생성',
+      editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+        const rowIndex = getResultRowIndex(editor.getValue(), editor.getCursor().line);
+        if (rowIndex === null || !view.file) return false;
+        if (!checking) {
+          this.promptRegenerateRow(view.file, rowIndex);
+        }
+        return true;
+      },
+    });
+
+    // 커맨드: 결과 노트에서 현재 행 학생의 기록 이력 보기
+    this.addCommand({
+      id: 'show-row-history',
+      name: '결과 노트: 현재 행 기록 이력 보기',
+      editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+        const rowIndex = getResultRowIndex(editor.getValue(), editor.getCursor().line);
+        if (rowIndex === null || !view.file) return false;
+        if (!checking) {
+          this.showRowHistory(view.file, rowIndex);
+        }
+        return true;
+      },
+    });
+
+    // 커맨드: 결과 노트에서 실패한 학생만 다시 변환
+    this.addCommand({
+      id: 'retry-failed-rows',
+      name: '실패한 학생만 다시 변환',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+        if (!checking) {
+          if (this.checkProviderSettings()) {
+            this.retryFailedRows(file);
+          }
+        }
+        return true;
+      },
+    });
+
+    // 커맨드: 결과 노트에서 기재요령 위반 기록만 다시 생성
+    this.addCommand({
+      id: 'fix-compliance-violations',
+      name: '기재요령 위반 기록 고치기',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+        if (!checking) {
+          if (this.checkProviderSettings()) {
+            this.fixViolationRows(file);
+          }
+        }
+        return true;
+      },
+    });
+
+    // 커맨드: 결과 노트에서 다른 학생과 표현이 겹치는 기록만 다시 생성
+    this.addCommand({
+      id: 'regenerate-similar-rows',
+      name: '중복 표현 줄여 다시 생성',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+        if (!checking) {
+          if (this.checkProviderSettings()) {
+            this.regenerateSimilarRows(file);
+          }
+        }
+        return true;
+      },
+    });
+
+    // 커맨드: 결과 노트를 저장된 데이터로 다시 그리기
+    this.addCommand({
+      id: 'rerender-result-note',
+      name: '결과 노트 다시 그리기',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+        if (!checking) {
+          this.rerenderResultNote(file);
+        }
+        return true;
+      },
+    });
+
+    // 커맨드: 결과 노트의 학생활동을 처음부터 다시 변환
+    this.addCommand({
+      id: 'rerun-result-note',
+      name: '결과 노트 전체 다시 변환',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+        if (!checking) {
+          if (this.checkProviderSettings()) {
+            this.rerunResultNote(file);
+          }
+        }
+        return true;
+      },
+    });
+
+    // 커맨드: 결과 노트를 파일로 내보내기
+    this.addCommand({
+      id: 'export-results',
+      name: '결과 내보내기 (CSV, XLSX, JSON)',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+        if (!checking) {
+          this.exportResults(file, ['csv', 'xlsx', 'json']);
+        }
+        return true;
+      },
+    });
+
+    // 에디터 우클릭 메뉴: 결과 테이블 행에서 다시 생성, 이력 보기
+    this.registerEvent(
+      this.app.workspace.on('editor-menu', (menu, editor, view) => {
+        const rowIndex = getResultRowIndex(editor.getValue(), editor.getCursor().line);
+        const file = view.file;
+        if (rowIndex === null || !file) return;
+        menu.addItem((item) => {
+          item
+            .setTitle('이 학생 교사관찰기록 다시 생성')
+            .setIcon('refresh-cw')
+            .onClick(() => {
+              this.promptRegenerateRow(file, rowIndex);
+            });
+        });
+        menu.addItem((item) => {
+          item
+            .setTitle('이 학생 기록 이력 보기')
+            .setIcon('history')
+            .onClick(() => {
+              this.showRowHistory(file, rowIndex);
+            });
+        });
+      })
+    );
 
-    // 완료된 학생 목록 (스크롤 가능)
-    const listSection = contentEl.createDiv({ cls: 'progress-list-section' });
-    listSection.createEl('h4', { text: '📝 변환 완료' });
-    this.studentListContainer = listSection.createDiv({ cls: 'progress-student-list' });
+    // 파일 메뉴 추가
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu, file) => {
+        menu.addItem((item) => {
+          item
+            .setTitle('학생활동 → 교사관찰기록 변환')
+            .setIcon('file-text')
+            .onClick(() => {
+              this.openConversionModal();
+            });
+        });
+        if (file instanceof TFolder) {
+          menu.addItem((item) => {
+            item
+              .setTitle('이 폴더의 노트에서 학생활동 가져오기')
+              .setIcon('folder-input')
+              .onClick(() => {
+                this.openNoteImportModal(file.path);
+              });
+          });
+        }
+      })
+    );
+  }
 
-    // 안내 메시지
-    const infoText = contentEl.createEl('p', { cls: 'progress-info' });
-    infoText.innerHTML = '🤖 AI가 학생활동 내용을 <strong>교사관찰기록 문체</strong>로 변환하고 있습니다.';
+  async onunload(): Promise<void> {
+    console.log('Unloading Student Activity to Observation Plugin');
   }
 
-  updateProgress(current: number, total: number, studentName: string) {
-    this.currentIndex = current;
-    this.totalCount = total;
-    const percentage = Math.round((current / total) * 100);
+  async loadSettings(): Promise<void> {
+    const data = await this.loadData();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+    this.keyStore = new KeyStore(this.app);
+    await this.keyStore.load();
+
+    // 예전 버전이 data.json에 저장한 API 키는 키 저장소로 옮기고 지움
+    // - 옮기지 못하면 하나뿐인 키를 잃지 않도록 data.json에 그대로 두고 다음 실행 때 다시 시도
+    if (data?.apiKey !== undefined) {
+      if (data.apiKey && !this.keyStore.get(this.settings.apiProvider)) {
+        try {
+          await this.keyStore.set(this.settings.apiProvider, data.apiKey);
+        } catch (error) {
+          console.error('Failed to migrate API key:', error);
+          new Notice('기존 API 키를 암호화 저장소로 옮기지 못했습니다. 키는 설정 파일에 그대로 남겨 두었습니다.', 10000);
+          return;
+        }
+      }
+      delete (this.settings as { apiKey?: string }).apiKey;
+      await this.saveSettings();
+    }
+  }
 
-    if (this.progressText) {
-      this.progressText.innerHTML = `<span class="current-student">🎯 ${studentName}</span> 변환 중... <span class="progress-count">(${current}/${total}명)</span>`;
+  async saveSettings(): Promise<void> {
+    await this.saveData(this.settings);
+  }
+
+  async openConversionModal() {
+    if (!this.checkProviderSettings()) {
+      return;
     }
-    if (this.progressBarFill) {
-      this.progressBarFill.style.width = `${percentage}%`;
-      // 동적 색상 변화
-      if (percentage < 30) {
-        this.progressBarFill.style.background = 'linear-gradient(90deg, #ff6b6b, #ffa502)';
-      } else if (percentage < 70) {
-        this.progressBarFill.style.background = 'linear-gradient(90deg, #ffa502, #2ed573)';
+
+    await this.loadPresets();
+    new InputModal(this.app, this, (activities, options) => {
+      this.convertActivities(activities, options);
+    }).open();
+  }
+
+  async openNoteImportModal(folder: string = '') {
+    if (!this.checkProviderSettings()) {
+      return;
+    }
+
+    await this.loadPresets();
+    new NoteImportModal(this.app, this, folder).open();
+  }
+
+  /**
+   * 폴더/태그 조건에 맞는 노트에서 학생활동 수집
+   */
+  async collectNoteActivities(filter: NoteImportFilter): Promise<NoteImportResult> {
+    const folder = filter.folder ? normalizePath(filter.folder) : '';
+    const tag = filter.tag ? `#${filter.tag.replace(/^#/, '')}`.toLowerCase() : '';
+    const result: NoteImportResult = { activities: [], noteCount: 0, skipped: [] };
+
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => !folder || file.path.startsWith(`${folder}/`))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    for (const file of files) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      if (tag) {
+        const tags = cache ? (getAllTags(cache) || []).map((t) => t.toLowerCase()) : [];
+        if (!tags.some((t) => t === tag || t.startsWith(`${tag}/`))) continue;
+      }
+
+      result.noteCount++;
+      const parsed = parseActivityNote(await this.app.vault.cachedRead(file), cache?.frontmatter, filter);
+      if (parsed.activity) {
+        result.activities.push(parsed.activity);
       } else {
-        this.progressBarFill.style.background = 'linear-gradient(90deg, #2ed573, #1e90ff)';
+        result.skipped.push({ path: file.path, reason: parsed.reason });
       }
     }
-    if (this.progressPercentText) {
-      this.progressPercentText.setText(`${percentage}%`);
-      this.progressPercentText.style.background = `conic-gradient(var(--interactive-accent) ${percentage * 3.6}deg, var(--background-modifier-border) 0deg)`;
+    return result;
+  }
+
+  /**
+   * 기본 프리셋의 분량으로 변환 조건 생성 (선택 영역 변환 등 Modal 없이 실행할 때)
+   */
+  getDefaultConversionOptions(): ConversionOptions {
+    const preset = this.getPreset(this.settings.defaultPresetId);
+    return {
+      targetCharCount: preset.targetCharCount,
+      maxByteCount: preset.maxByteCount,
+      presetId: preset.id,
+    };
+  }
+
+  /**
+   * 내장 프리셋에 프리셋 폴더의 파일을 덧씌워 불러옴 (같은 id면 파일이 우선)
+   */
+  async loadPresets(): Promise<PromptPreset[]> {
+    // 설정의 기본 분량은 처음 설치할 때의 기본 프리셋(내장 세특)에 적용 (프리셋 도입 전처럼 설정값으로 변환)
+    const presets = BUILTIN_PRESETS.map((preset) =>
+      preset.id === DEFAULT_SETTINGS.defaultPresetId
+        ? { ...preset, targetCharCount: this.settings.targetCharCount, maxByteCount: this.settings.maxByteCount }
+        : { ...preset }
+    );
+    const defaults: LengthBudget = {
+      targetChars: this.settings.targetCharCount,
+      maxBytes: this.settings.maxByteCount,
+    };
+    const folder = this.settings.presetFolder
+      ? this.app.vault.getAbstractFileByPath(normalizePath(this.settings.presetFolder))
+      : null;
+
+    if (folder instanceof TFolder) {
+      for (const child of folder.children) {
+        if (!(child instanceof TFile) || child.extension !== 'md') continue;
+        const preset = parsePresetFile(await this.app.vault.read(child), child.basename, defaults);
+        if (!preset) {
+          new Notice(`프리셋 파일을 읽을 수 없어 건너뜁니다: ${child.path}\n맨 위 속성(---)과 '## 시스템 프롬프트', '## 사용자 프롬프트' 제목이 있는지 확인해주세요.`);
+          continue;
+        }
+        preset.filePath = child.path;
+        const index = presets.findIndex((p) => p.id === preset.id);
+        if (index >= 0) {
+          presets[index] = preset;
+        } else {
+          presets.push(preset);
+        }
+      }
     }
-    if (this.statusText) {
-      if (current === total) {
-        this.statusText.innerHTML = '✅ 변환 완료! 결과를 저장하고 있습니다...';
+
+    this.presets = presets;
+    return presets;
+  }
+
+  getPreset(id: string): PromptPreset {
+    return this.presets.find((p) => p.id === id) || this.presets[0] || BUILTIN_PRESETS[0];
+  }
+
+  /**
+   * 프리셋을 프리셋 폴더의 마크다운 파일로 저장 (동료 교사와 파일째 공유 가능)
+   */
+  async savePreset(preset: PromptPreset): Promise<void> {
+    if (!this.settings.presetFolder) {
+      this.settings.presetFolder = DEFAULT_SETTINGS.presetFolder;
+      await this.saveSettings();
+    }
+    const folderPath = normalizePath(this.settings.presetFolder);
+    if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+      await this.app.vault.createFolder(folderPath);
+    }
+
+    const content = serializePreset(preset);
+    const existing = preset.filePath ? this.app.vault.getAbstractFileByPath(preset.filePath) : null;
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+    } else {
+      const fileName = preset.name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || preset.id;
+      await this.app.vault.create(normalizePath(`${folderPath}/${fileName}.md`), content);
+    }
+    await this.loadPresets();
+  }
+
+  /**
+   * 결과 노트 머리말에서 변환 조건 복원 (없으면 현재 설정)
+   */
+  async getResultContext(content: string): Promise<GenerationContext> {
+    await this.loadPresets();
+    const data = parseResultData(content);
+    const presetId = data ? data.presetId : parseResultPresetId(content);
+    const preset = this.getPreset(presetId || this.settings.defaultPresetId);
+    const budget = (data ? { targetChars: data.targetCharCount, maxBytes: data.maxByteCount } : null) ||
+      parseResultBudget(content) || {
+        targetChars: preset.targetCharCount,
+        maxBytes: preset.maxByteCount,
+      };
+    return { budget, preset };
+  }
+
+  /**
+   * 새 결과 노트에 저장할 변환 데이터 (현재 제공자/모델 기준)
+   */
+  createResultData(records: ObservationRecord[], context: GenerationContext): ResultNoteData {
+    const now = new Date().toISOString();
+    return {
+      version: RESULT_DATA_VERSION,
+      createdAt: now,
+      updatedAt: now,
+      provider: this.settings.apiProvider,
+      model: this.getActiveModelId(),
+      presetId: context.preset.id,
+      targetCharCount: context.budget.targetChars,
+      maxByteCount: context.budget.maxBytes,
+      records,
+    };
+  }
+
+  /**
+   * 결과 노트를 저장된 데이터로 다시 그림 (예전 노트에는 변환 데이터를 추가)
+   */
+  async rerenderResultNote(file: TFile) {
+    const content = await this.app.vault.read(file);
+    const note = parseResultNote(content);
+    if (!note) {
+      new Notice('결과 테이블이 있는 노트에서 실행해주세요.');
+      return;
+    }
+
+    let updated = updateResultNoteContent(content, note.records);
+    if (!parseResultData(updated)) {
+      // 통계 섹션이 없는 노트는 끝에 변환 데이터를 붙임
+      const context = await this.getResultContext(content);
+      updated = `${updated.trimEnd()}\n${formatResultDataBlock(this.createResultData(note.records, context))}`;
+    }
+    await this.app.vault.modify(file, updated);
+    this.registerResultButtonHandlers();
+    new Notice(`결과 노트를 다시 그렸습니다. (${note.records.length}명)`);
+  }
+
+  /**
+   * 결과 노트의 학생활동을 같은 프리셋과 분량으로 처음부터 다시 변환 (새 결과 노트 생성)
+   */
+  async rerunResultNote(file: TFile) {
+    const content = await this.app.vault.read(file);
+    const note = parseResultNote(content);
+    if (!note || note.records.length === 0) {
+      new Notice('결과 테이블이 있는 노트에서 실행해주세요.');
+      return;
+    }
+
+    const context = await this.getResultContext(content);
+    const activities: StudentActivity[] = note.records.map((record) => ({
+      studentId: record.studentId,
+      studentName: record.studentName,
+      activityContent: record.activityContent,
+      ...copyActivityExtras(record),
+    }));
+    await this.convertActivities(activities, {
+      targetCharCount: context.budget.targetChars,
+      maxByteCount: context.budget.maxBytes,
+      presetId: context.preset.id,
+    });
+  }
+
+  /**
+   * 현재 제공자에 필요한 설정(API 키, 서버 주소, 모델)이 갖춰졌는지 확인
+   */
+  checkProviderSettings(): boolean {
+    const provider = getProvider(this.settings.apiProvider);
+    if (!provider) {
+      new Notice(`지원하지 않는 AI 제공자: ${this.settings.apiProvider}`);
+      return false;
+    }
+    if (provider.requiresApiKey && !this.keyStore.get(provider.id)) {
+      new Notice('API 키를 설정해주세요. (설정 → 학생활동 → 교사관찰기록 변환)');
+      return false;
+    }
+    if (provider.requiresBaseUrl && !this.getProviderConfig(provider).baseUrl) {
+      new Notice('서버 주소를 설정해주세요. (설정 → 학생활동 → 교사관찰기록 변환)');
+      return false;
+    }
+    if (!this.settings.modelId && !provider.defaultModel) {
+      new Notice('모델 ID를 설정해주세요. (설정 → 학생활동 → 교사관찰기록 변환)');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 짧은 요청을 보내 API 키와 모델을 확인 (대체 모델을 주지 않으면 현재 제공자 설정)
+   */
+  async testConnection(entry?: FallbackModel): Promise<{ ok: boolean; message: string }> {
+    const providerId = entry?.provider || this.settings.apiProvider;
+    const provider = getProvider(providerId);
+    if (!provider) {
+      return { ok: false, message: `지원하지 않는 AI 제공자: ${providerId}` };
+    }
+    const config = this.getProviderConfig(provider, entry ? entry.modelId || provider.defaultModel : undefined);
+    if (provider.requiresApiKey && !config.apiKey) {
+      return { ok: false, message: 'API 키를 입력해주세요.' };
+    }
+    if (provider.requiresBaseUrl && !config.baseUrl) {
+      return { ok: false, message: '서버 주소를 입력해주세요.' };
+    }
+
+    try {
+      const response = await provider.complete(config, {
+        systemPrompt: '연결 테스트입니다.',
+        userPrompt: 'OK라고만 답하세요.',
+      });
+      if (response.usage) {
+        this.recordUsage(provider.id, config.modelId, response.usage);
+      }
+      return { ok: true, message: `연결 성공: ${provider.vendor} · ${config.modelId}` };
+    } catch (error) {
+      return { ok: false, message: describeProviderError(error, config.modelId) };
+    }
+  }
+
+  /**
+   * 설정 화면에 보여줄 모델 목록 (내장 목록 뒤에 새로고침으로 가져온 새 모델을 덧붙임)
+   */
+  getModelOptions(provider: AIProvider): ModelOption[] {
+    const cached = this.settings.modelCache[provider.id]?.models || [];
+    const known = new Set(provider.models.map((model) => model.id));
+    const discovered = cached
+      .filter((model) => !known.has(model.id))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    return [...provider.models, ...discovered];
+  }
+
+  /**
+   * 현재 제공자의 모델 목록 API에서 모델을 가져와 저장
+   */
+  async refreshModels(): Promise<{ ok: boolean; message: string }> {
+    const provider = getProvider(this.settings.apiProvider);
+    if (!provider?.listModels) {
+      return { ok: false, message: '이 제공자는 모델 목록을 가져올 수 없습니다.' };
+    }
+    const config = this.getProviderConfig(provider);
+    if (provider.requiresApiKey && !config.apiKey) {
+      return { ok: false, message: 'API 키를 먼저 입력해주세요.' };
+    }
+
+    try {
+      const models = await provider.listModels(config);
+      this.settings.modelCache = {
+        ...this.settings.modelCache,
+        [provider.id]: { fetchedAt: new Date().toISOString(), models },
+      };
+      await this.saveSettings();
+      const added = models.filter((model) => !provider.models.some((known) => known.id === model.id)).length;
+      return {
+        ok: true,
+        message: `모델 ${models.length}개를 가져왔습니다.${added > 0 ? ` (새 모델 ${added}개)` : ''}`,
+      };
+    } catch (error) {
+      return { ok: false, message: `모델 목록을 가져오지 못했습니다. ${describeProviderError(error, config.modelId)}` };
+    }
+  }
+
+  /**
+   * 생성에 쓸 제공자 순서 (선택한 모델 다음에 대체 모델을 순서대로)
+   * - 키나 서버 주소가 없는 대체 모델, 이미 나온 모델은 건너뜀
+   */
+  getProviderChain(): ProviderTarget[] {
+    const entries: FallbackModel[] = [
+      { provider: this.settings.apiProvider, modelId: this.getActiveModelId() },
+      ...this.settings.fallbackModels,
+    ];
+    const chain: ProviderTarget[] = [];
+    for (const entry of entries) {
+      const provider = getProvider(entry.provider);
+      if (!provider) continue;
+      const config = this.getProviderConfig(provider, entry.modelId || provider.defaultModel);
+      if (!config.modelId) continue;
+      if (provider.requiresApiKey && !config.apiKey) continue;
+      if (provider.requiresBaseUrl && !config.baseUrl) continue;
+      if (chain.some((t) => t.provider.id === provider.id && t.config.modelId === config.modelId)) continue;
+      chain.push({ provider, config });
+    }
+    return chain;
+  }
+
+  getActiveModelId(): string {
+    const provider = getProvider(this.settings.apiProvider);
+    return provider ? this.getProviderConfig(provider).modelId : this.settings.modelId;
+  }
+
+  getProviderConfig(provider: AIProvider, modelId?: string): ProviderConfig {
+    return {
+      apiKey: this.keyStore.get(provider.id),
+      modelId: modelId || this.settings.modelId || provider.defaultModel,
+      baseUrl: this.settings.customBaseUrl || provider.defaultBaseUrl || '',
+    };
+  }
+
+  async processConversion(data: string, options: ConversionOptions) {
+    const parsed = parseSpreadsheet(data);
+    const { skipped } = parsed;
+    const activities = this.settings.aggregateByStudent
+      ? aggregateActivities(parsed.activities, this.settings.aggregateBySubject)
+      : parsed.activities;
+
+    if (skipped.length > 0) {
+      new Notice(
+        `${skipped.length}개 행을 건너뜁니다: ${skipped
+          .slice(0, 3)
+          .map((row) => `${row.line}행(${row.reason})`)
+          .join(', ')}${skipped.length > 3 ? ' 등' : ''}`
+      );
+    }
+
+    await this.convertActivities(activities, options);
+  }
+
+  async convertActivities(activities: StudentActivity[], options: ConversionOptions) {
+    if (activities.length === 0) {
+      new Notice('변환할 데이터가 없습니다.');
+      return;
+    }
+
+    const checkpoint: ConversionCheckpoint = {
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      targetCharCount: options.targetCharCount,
+      maxByteCount: options.maxByteCount,
+      presetId: options.presetId,
+      activities,
+      records: activities.map(() => null),
+    };
+    if (!this.settings.confirmCostEstimate) {
+      await this.runConversion(checkpoint);
+      return;
+    }
+
+    // 시작 전에 예상 토큰 수와 비용 확인
+    await this.loadPresets();
+    const modelId = this.getActiveModelId();
+    const estimate = estimateConversionUsage(
+      activities,
+      this.getPreset(options.presetId),
+      { targetChars: options.targetCharCount, maxBytes: options.maxByteCount },
+      modelId,
+      this.getCandidateCount()
+    );
+    const providerLabel = getProvider(this.settings.apiProvider)?.label || this.settings.apiProvider;
+    new EstimateModal(this.app, estimate, `${providerLabel} · ${modelId}`, () => {
+      this.runConversion(checkpoint);
+    }).open();
+  }
+
+  /**
+   * 중단된 변환 이어하기 (체크포인트에서 아직 변환되지 않은 학생만 처리)
+   */
+  async resumeConversion() {
+    const checkpoint = await this.loadCheckpoint();
+    if (!checkpoint) {
+      new Notice('이어서 변환할 작업이 없습니다.');
+      return;
+    }
+    if (!this.checkProviderSettings()) {
+      return;
+    }
+
+    const done = checkpoint.records.filter((r) => r !== null).length;
+    new Notice(`중단된 변환을 이어갑니다. (${done}/${checkpoint.activities.length}명 완료됨)`);
+    await this.runConversion(checkpoint);
+  }
+
+  /**
+   * 체크포인트 기준으로 미완료 학생을 변환하고, 완료될 때마다 체크포인트 저장
+   */
+  async runConversion(checkpoint: ConversionCheckpoint) {
+    const { activities } = checkpoint;
+    await this.loadPresets();
+    const context: GenerationContext = {
+      budget: { targetChars: checkpoint.targetCharCount, maxBytes: checkpoint.maxByteCount },
+      preset: this.getPreset(checkpoint.presetId),
+    };
+    const pending = activities.map((_, index) => index).filter((index) => checkpoint.records[index] === null);
+
+    await this.saveCheckpoint(checkpoint);
+
+    const batch = await this.convertWithProgress(
+      activities,
+      pending,
+      context,
+      activities.length - pending.length,
+      async (index, record) => {
+        checkpoint.records[index] = record;
+        await this.saveCheckpoint(checkpoint);
+      },
+      undefined,
+      this.getCandidateCount()
+    );
+    if (!batch) return;
+
+    if (batch.cancelled) {
+      const done = checkpoint.records.filter((r) => r !== null).length;
+      new Notice(
+        `변환을 중단했습니다. (${done}/${activities.length}명 저장됨)\n'중단된 변환 이어하기' 명령으로 나머지를 변환할 수 있습니다.`
+      );
+      return;
+    }
+
+    const records: ObservationRecord[] = activities.map(
+      (activity, index) => checkpoint.records[index] || batch.results.get(index) || createFailedRecord(activity, null)
+    );
+    const errorCount = batch.errorCount;
+
+    if (!this.settings.reviewBeforeSave) {
+      await this.saveResults(records, context, errorCount);
+      return;
+    }
+
+    // 검토 후 승인한 기록만 저장
+    new ReviewModal(
+      this.app,
+      records,
+      context.budget,
+      (record, instruction) => this.regenerateRecord(record, context, instruction, records),
+      async (accepted) => {
+        await this.saveResults(
+          accepted,
+          context,
+          accepted.filter(isFailedRecord).length,
+          records.length - accepted.length
+        );
+      },
+      () => {
+        new Notice("저장하지 않고 검토를 닫았습니다. '중단된 변환 이어하기'로 다시 검토할 수 있습니다.");
+      }
+    ).open();
+  }
+
+  /**
+   * 지정한 학생들을 진행 창과 함께 일괄 변환
+   * - 성공하면 onSuccess 호출, 실패하면 실패 기록을 results에 담음
+   * - 중단된 학생은 results에 포함되지 않음
+   */
+  async convertWithProgress(
+    activities: StudentActivity[],
+    indexes: number[],
+    context: GenerationContext,
+    completedBefore: number,
+    onSuccess?: (index: number, record: ObservationRecord) => Promise<void>,
+    instructions?: Map<number, string>,
+    candidateCount: number = 1
+  ): Promise<{ results: Map<number, ObservationRecord>; errorCount: number; cancelled: boolean } | null> {
+    const chain = this.getProviderChain();
+    if (chain.length === 0) {
+      new Notice(`지원하지 않는 AI 제공자: ${this.settings.apiProvider}`);
+      return null;
+    }
+
+    const control = new BatchControl();
+    const progressModal = new ProgressModal(this.app, control);
+    progressModal.open();
+
+    const results = new Map<number, ObservationRecord>();
+    let errorCount = 0;
+    const usage: UsageTally = { inputTokens: 0, outputTokens: 0, cost: 0 };
+    const limiter = new RateLimiter(this.settings.requestsPerMinute);
+    const pseudonymizer = this.createPseudonymizer(activities);
+
+    progressModal.start(indexes.length + completedBefore, completedBefore, context.budget);
+
+    await runBatch(
+      indexes,
+      this.settings.concurrency,
+      async (index) => {
+        const activity = activities[index];
+        progressModal.markStarted(index, activity.studentName);
+
+        // 받는 중인 글은 가명처리를 되돌려 진행 창에 표시
+        const stream: StreamHandlers = {
+          onText: (text) => progressModal.updatePreview(index, pseudonymizer ? pseudonymizer.unmask(text) : text),
+          onStop: (stop) => progressModal.setStopHandler(index, stop),
+          maxChars: context.budget.targetChars * RUNAWAY_LENGTH_RATIO,
+        };
+        const senders = chain.map((target) => ({
+          target,
+          send: this.createSender(
+            target,
+            limiter,
+            control,
+            (attempt, delayMs) =>
+              progressModal.markRetrying(activity.studentName, attempt, this.settings.maxRetries, delayMs),
+            usage,
+            stream
+          ),
+        }));
+
+        try {
+          const options = {
+            instruction: instructions?.get(index),
+            pseudonymizer,
+            onRevise: (attempt: number) =>
+              progressModal.markRevising(activity.studentName, attempt, this.settings.maxLengthRevisions),
+            onFallback: (target: ProviderTarget) =>
+              progressModal.markFallback(activity.studentName, formatTargetLabel(target)),
+          };
+          const record =
+            candidateCount > 1
+              ? await this.generateCandidates(activity, context, senders, candidateCount, {
+                  ...options,
+                  onCandidate: (candidate) => progressModal.markCandidate(activity.studentName, candidate, candidateCount),
+                  onCandidateFailed: (candidate) =>
+                    progressModal.markCandidateFailed(activity.studentName, candidate, candidateCount),
+                })
+              : await this.generateRecord(activity, context, senders, options);
+          results.set(index, record);
+          await onSuccess?.(index, record);
+          progressModal.markFinished(index, activity.studentName, true);
+        } catch (error) {
+          if (error instanceof BatchCancelledError) {
+            progressModal.markStopped(index);
+            return;
+          }
+          if (isAuthError(error)) {
+            // 키가 잘못되면 나머지 학생도 모두 실패하므로 바로 중단 (키를 고친 뒤 이어하기)
+            if (!control.cancelled) {
+              control.cancel();
+              const failed = (error instanceof ProviderError && error.target) || chain[0];
+              new Notice(
+                `${formatTargetLabel(failed)}: ${describeProviderError(error, failed.config.modelId)}`,
+                10000
+              );
+            }
+            progressModal.markStopped(index);
+            return;
+          }
+          console.error(`Error processing ${activity.studentName}:`, error);
+          errorCount++;
+          results.set(index, createFailedRecord(activity, error));
+          progressModal.markFinished(index, activity.studentName, false);
+        }
+      },
+      control
+    );
+
+    progressModal.close();
+
+    if (usage.inputTokens + usage.outputTokens > 0) {
+      new Notice(
+        `이번 변환 사용량: 입력 ${formatTokens(usage.inputTokens)} · 출력 ${formatTokens(usage.outputTokens)} · ${formatCost(usage.cost)}`,
+        8000
+      );
+    }
+    const primary = chain[0];
+    const fallbackCount = Array.from(results.values()).filter(
+      (record) => record.model && (record.provider !== primary.provider.id || record.model !== primary.config.modelId)
+    ).length;
+    if (fallbackCount > 0) {
+      new Notice(`${fallbackCount}명은 선택한 모델이 실패하여 대체 모델로 생성했습니다. 결과 테이블의 '생성 모델'을 확인해주세요.`, 8000);
+    }
+    return { results, errorCount, cancelled: control.cancelled };
+  }
+
+  /**
+   * 결과 노트에서 변환 실패한 학생만 현재 설정으로 다시 변환하여 병합
+   */
+  async retryFailedRows(file: TFile) {
+    const content = await this.app.vault.read(file);
+    const context = await this.getResultContext(content);
+    const records = parseResultRecords(content, context.budget);
+    const failed = records.map((record, index) => index).filter((index) => isFailedRecord(records[index]));
+
+    if (failed.length === 0) {
+      new Notice('변환에 실패한 학생이 없습니다.');
+      return;
+    }
+
+    const batch = await this.convertWithProgress(records, failed, context, 0);
+    if (!batch) return;
+
+    const merged = await this.mergeResultRows(file, context, batch.results);
+    const remaining = failed.length - merged;
+    new Notice(
+      remaining > 0
+        ? `${merged}명 다시 변환 완료, ${remaining}명은 여전히 실패했습니다.`
+        : `실패했던 ${merged}명을 모두 다시 변환했습니다.`
+    );
+  }
+
+  /**
+   * 결과 노트에서 기재요령 위반이 있는 학생만 위반 내용을 알려 주고 다시 생성
+   */
+  async fixViolationRows(file: TFile) {
+    const content = await this.app.vault.read(file);
+    const context = await this.getResultContext(content);
+    const records = parseResultRecords(content, context.budget);
+    const instructions = new Map<number, string>();
+    records.forEach((record, index) => {
+      const violations = getRecordViolations(record);
+      if (violations.length > 0) {
+        instructions.set(index, buildComplianceInstruction(violations));
+      }
+    });
+
+    if (instructions.size === 0) {
+      new Notice('기재요령 위반이 의심되는 기록이 없습니다.');
+      return;
+    }
+
+    const indexes = Array.from(instructions.keys());
+    const batch = await this.convertWithProgress(records, indexes, context, 0, undefined, instructions);
+    if (!batch) return;
+
+    const merged = await this.mergeResultRows(file, context, batch.results);
+    const remaining = parseResultRecords(await this.app.vault.read(file), context.budget).filter(
+      (record) => getRecordViolations(record).length > 0
+    ).length;
+    new Notice(
+      remaining > 0
+        ? `${merged}명 다시 생성 완료, ${remaining}명은 여전히 위반이 의심됩니다. 통계 아래 점검 결과를 확인해주세요.`
+        : `위반이 의심되던 ${merged}명을 모두 고쳤습니다.`
+    );
+  }
+
+  /**
+   * 결과 노트에서 다른 학생과 표현이 겹치는 학생만 그 표현을 피하도록 다시 생성
+   */
+  async regenerateSimilarRows(file: TFile) {
+    const content = await this.app.vault.read(file);
+    const context = await this.getResultContext(content);
+    const records = parseResultRecords(content, context.budget);
+    const { offenders } = analyzeSimilarity(records);
+
+    if (offenders.size === 0) {
+      new Notice('다른 학생과 겹치는 표현이 없습니다.');
+      return;
+    }
+
+    const instructions = new Map<number, string>();
+    offenders.forEach((phrases, index) => instructions.set(index, buildSimilarityInstruction(phrases)));
+
+    const indexes = Array.from(instructions.keys()).sort((a, b) => a - b);
+    const batch = await this.convertWithProgress(records, indexes, context, 0, undefined, instructions);
+    if (!batch) return;
+
+    const merged = await this.mergeResultRows(file, context, batch.results);
+    const latest = parseResultRecords(await this.app.vault.read(file), context.budget);
+    const remaining = analyzeSimilarity(latest).offenders.size;
+    new Notice(
+      remaining > 0
+        ? `${merged}명 다시 생성 완료, 아직 ${remaining}명의 기록에 겹치는 표현이 있습니다.`
+        : `${merged}명 다시 생성 완료, 겹치는 표현이 없어졌습니다.`
+    );
+  }
+
+  /**
+   * 다시 생성한 기록을 결과 노트에 반영
+   * - 변환하는 동안 노트가 바뀌었을 수 있으므로 다시 읽어서 같은 학생 행에만 반영
+   */
+  async mergeResultRows(
+    file: TFile,
+    context: GenerationContext,
+    results: Map<number, ObservationRecord>
+  ): Promise<number> {
+    const latest = await this.app.vault.read(file);
+    const latestRecords = parseResultRecords(latest, context.budget);
+    let merged = 0;
+    results.forEach((record, index) => {
+      const current = latestRecords[index];
+      if (isFailedRecord(record) || !current || current.studentId !== record.studentId) return;
+      latestRecords[index] = carryHistory(current, record);
+      merged++;
+    });
+
+    if (merged > 0) {
+      await this.app.vault.modify(file, updateResultNoteContent(latest, latestRecords));
+      this.registerResultButtonHandlers();
+    }
+    return merged;
+  }
+
+  /**
+   * 결과 노트의 기록을 같은 폴더에 CSV/XLSX/JSON 파일로 저장
+   */
+  async exportResults(file: TFile, formats: ExportFormat[]) {
+    const content = await this.app.vault.read(file);
+    const { budget } = await this.getResultContext(content);
+    const records = parseResultRecords(content, budget);
+    if (records.length === 0) {
+      new Notice('결과 테이블이 있는 노트에서 실행해주세요.');
+      return;
+    }
+
+    const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+    const saved: string[] = [];
+    try {
+      for (const format of formats) {
+        const path = normalizePath(`${folder}${file.basename}.${format}`);
+        if (format === 'xlsx') {
+          const xlsx = generateXLSX(records, budget);
+          await this.writeExportFile(path, xlsx.buffer.slice(xlsx.byteOffset, xlsx.byteOffset + xlsx.byteLength));
+        } else {
+          await this.writeExportFile(path, format === 'csv' ? generateCSV(records) : generateJSON(records));
+        }
+        saved.push(path);
+      }
+      new Notice(`내보내기 완료: ${saved.join(', ')}`);
+    } catch (error) {
+      console.error('Failed to export results:', error);
+      new Notice(`내보내기 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  }
+
+  async writeExportFile(path: string, data: string | ArrayBuffer) {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      if (typeof data === 'string') {
+        await this.app.vault.modify(existing, data);
       } else {
-        const remaining = total - current;
-        const estimatedTime = remaining * 2; // 약 2초/명 예상
-        this.statusText.innerHTML = `⏳ 남은 학생: <strong>${remaining}명</strong> (예상 ${estimatedTime}초)`;
+        await this.app.vault.modifyBinary(existing, data);
       }
+    } else if (typeof data === 'string') {
+      await this.app.vault.create(path, data);
+    } else {
+      await this.app.vault.createBinary(path, data);
+    }
+  }
+
+  /**
+   * 결과 노트 생성 후 체크포인트 정리
+   */
+  async saveResults(
+    records: ObservationRecord[],
+    context: GenerationContext,
+    errorCount: number,
+    rejectedCount: number = 0
+  ) {
+    if (records.length === 0) {
+      new Notice('저장할 기록이 없습니다.');
+      await this.clearCheckpoint();
+      return;
     }
 
-    // 이전 학생이 완료되었으므로 이전 학생 이름을 목록에 추가
-    if (this.previousStudentName && this.studentListContainer) {
-      const studentTag = this.studentListContainer.createSpan({ cls: 'completed-student-tag' });
-      studentTag.setText(`✓ ${this.previousStudentName}`);
-      // 스크롤을 최신 항목으로
-      this.studentListContainer.scrollTop = this.studentListContainer.scrollHeight;
+    // 결과 노트 생성
+    await this.createResultNote(records, context);
+    await this.clearCheckpoint();
+
+    const rejectedInfo = rejectedCount > 0 ? ` (${rejectedCount}명 제외)` : '';
+    if (errorCount > 0) {
+      new Notice(`변환 완료! (${records.length - errorCount}명 성공, ${errorCount}명 실패)${rejectedInfo}`);
+    } else {
+      new Notice(`${records.length}명의 교사관찰기록 변환 완료!${rejectedInfo}`);
     }
-    // 현재 학생 이름 저장 (다음 호출 시 완료 처리용)
-    this.previousStudentName = studentName;
-  }
 
-  // 마지막 학생 완료 처리
-  markLastStudentComplete() {
-    if (this.previousStudentName && this.studentListContainer) {
-      const studentTag = this.studentListContainer.createSpan({ cls: 'completed-student-tag' });
-      studentTag.setText(`✓ ${this.previousStudentName}`);
-      this.studentListContainer.scrollTop = this.studentListContainer.scrollHeight;
+    const similarity = analyzeSimilarity(records);
+    if (similarity.offenders.size > 0) {
+      new Notice(
+        `여러 학생에게 반복된 표현이 ${similarity.phrases.length}개 있습니다. 결과 노트의 '중복 표현'을 확인해주세요.`,
+        8000
+      );
     }
   }
 
-  onClose() {
-    const { contentEl } = this;
-    contentEl.empty();
+  /**
+   * 재시도와 분당 요청 수 제한을 적용한 요청 함수 생성
+   * - 응답의 토큰 사용량은 누적 사용량에 기록하고, tally가 있으면 함께 합산
+   */
+  createSender(
+    target: ProviderTarget,
+    limiter: RateLimiter,
+    control: BatchControl | null = null,
+    onRetry?: (attempt: number, delayMs: number) => void,
+    tally?: UsageTally,
+    stream?: StreamHandlers
+  ): (request: CompletionRequest) => Promise<string> {
+    const { provider, config } = target;
+    return (request) =>
+      withRetry(
+        async () => {
+          if (control?.cancelled) throw new BatchCancelledError();
+          await limiter.acquire();
+          await this.appendAuditLog(provider, config, request);
+          const response = await this.requestCompletion(target, request, stream);
+          if (response.usage) {
+            if (tally) {
+              const cost = calculateCost(config.modelId, response.usage);
+              tally.inputTokens += response.usage.inputTokens;
+              tally.outputTokens += response.usage.outputTokens;
+              tally.cost = tally.cost === null || cost === null ? null : tally.cost + cost;
+            }
+            this.recordUsage(provider.id, config.modelId, response.usage);
+          }
+          return response.text;
+        },
+        this.settings.maxRetries,
+        onRetry
+      );
   }
-}
-
-// ==================== Settings Tab ====================
 
-class StudentActivitySettingTab extends PluginSettingTab {
-  plugin: StudentActivityPlugin;
-  modelDropdown: any = null;
+  /**
+   * 요청 보내기 - 스트리밍을 켰고 보여줄 곳이 있으면 스트리밍으로, 아니면 한 번에 받기
+   * - 스트리밍 연결 자체가 안 되는 제공자(CORS를 허용하지 않는 로컬 서버 등)는 이후 한 번에 받기로 전환
+   */
+  async requestCompletion(
+    target: ProviderTarget,
+    request: CompletionRequest,
+    stream?: StreamHandlers
+  ): Promise<CompletionResponse> {
+    const { provider, config } = target;
+    if (!stream || !this.settings.streaming || !provider.stream || this.streamUnavailable.has(provider.id)) {
+      return provider.complete(config, request);
+    }
 
-  constructor(app: App, plugin: StudentActivityPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+    const controller = new AbortController();
+    let text = '';
+    stream.onStop?.(() => controller.abort());
+    try {
+      return await provider.stream(
+        config,
+        request,
+        (delta) => {
+          text += delta;
+          stream.onText(text);
+          if (stream.maxChars && countChars(text) > stream.maxChars) {
+            controller.abort();
+          }
+        },
+        controller.signal
+      );
+    } catch (error) {
+      if (error instanceof TypeError && !controller.signal.aborted && text === '') {
+        this.streamUnavailable.add(provider.id);
+        return provider.complete(config, request);
+      }
+      throw error;
+    } finally {
+      stream.onStop?.(null);
+    }
   }
 
-  getProviderName(provider: string): string {
-    const names: Record<string, string> = {
-      openai: 'OpenAI',
-      claude: 'Anthropic',
-      gemini: 'Google',
-      grok: 'xAI',
-    };
-    return names[provider] || provider;
+  /**
+   * 누적 사용량 기록 (동시 처리 중 설정 저장이 겹치지 않도록 순서대로 저장)
+   */
+  recordUsage(providerId: string, modelId: string, usage: TokenUsage): Promise<void> {
+    this.settings.usageLedger = addToLedger(
+      this.settings.usageLedger,
+      providerId,
+      usage,
+      calculateCost(modelId, usage)
+    );
+    this.usageWrite = this.usageWrite
+      .then(() => this.saveSettings())
+      .catch((error) => console.error('Failed to save usage ledger:', error));
+    return this.usageWrite;
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
-
-    containerEl.createEl('h1', { text: '학생활동 → 교사관찰기록 변환 설정' });
+  /**
+   * 학생당 후보 수 (설정 파일을 직접 고친 경우에도 1~최대 후보 수로 제한)
+   */
+  getCandidateCount(): number {
+    return Math.min(MAX_CANDIDATES, Math.max(1, Math.floor(this.settings.candidateCount) || 1));
+  }
 
-    // API 제공자 선택
-    new Setting(containerEl)
-      .setName('AI 제공자')
-      .setDesc('사용할 AI API 제공자를 선택합니다.')
-      .addDropdown((dropdown) => {
-        dropdown.addOption('openai', 'OpenAI (GPT)');
-        dropdown.addOption('claude', 'Anthropic (Claude)');
-        dropdown.addOption('gemini', 'Google (Gemini)');
-        dropdown.addOption('grok', 'xAI (Grok)');
-        dropdown.setValue(this.plugin.settings.apiProvider);
-        dropdown.onChange(async (value) => {
-          this.plugin.settings.apiProvider = value as 'openai' | 'claude' | 'gemini' | 'grok';
-          // 제공자 변경 시 기본 모델로 설정
-          this.plugin.settings.modelId = DEFAULT_MODELS[value];
-          await this.plugin.saveSettings();
-          this.display(); // 설정 화면 새로고침
-        });
-      });
+  /**
+   * 학생 한 명의 교사관찰기록 생성
+   * - 재시도 후에도 실패하면 다음 대체 모델로 넘어가고, 마지막 모델까지 실패하면 오류를 던짐
+   */
+  async generateRecord(
+    activity: StudentActivity,
+    context: GenerationContext,
+    senders: ModelSender[],
+    options: {
+      instruction?: string;
+      temperature?: number;
+      pseudonymizer?: Pseudonymizer | null;
+      onRevise?: (attempt: number) => void;
+      onFallback?: (target: ProviderTarget) => void;
+    } = {}
+  ): Promise<ObservationRecord> {
+    for (let i = 0; ; i++) {
+      try {
+        return await this.generateWithSender(activity, context, senders[i], options);
+      } catch (error) {
+        if (error instanceof ProviderError && !error.target) {
+          error.target = senders[i].target;
+        }
+        if (error instanceof BatchCancelledError || i >= senders.length - 1) throw error;
+        options.onFallback?.(senders[i + 1].target);
+      }
+    }
+  }
 
-    // API 키
-    const apiKeyPlaceholders: Record<string, string> = {
-      openai: 'sk-...',
-      claude: 'sk-ant-...',
-      gemini: 'AIza...',
-      grok: 'xai-...',
+  /**
+   * 한 모델로 교사관찰기록 생성 (분량 기준을 벗어나면 조정 요청)
+   */
+  async generateWithSender(
+    activity: StudentActivity,
+    context: GenerationContext,
+    sender: ModelSender,
+    options: {
+      instruction?: string;
+      temperature?: number;
+      pseudonymizer?: Pseudonymizer | null;
+      onRevise?: (attempt: number) => void;
+    }
+  ): Promise<ObservationRecord> {
+    const { send, target } = sender;
+    // 가명처리: 요청에는 토큰으로 바꾼 활동만 사용하고, 결과는 로컬에서 되돌림
+    const pseudonymizer = options.pseudonymizer;
+    const sent = pseudonymizer ? pseudonymizer.maskActivity(activity) : activity;
+    const instruction =
+      pseudonymizer && options.instruction ? pseudonymizer.mask(options.instruction) : options.instruction;
+
+    const { budget, preset } = context;
+    const draft = await send({
+      systemPrompt: preset.systemPrompt,
+      userPrompt: buildUserPrompt(preset, sent, budget, instruction),
+      temperature: options.temperature,
+    });
+    const fitted = await fitToLengthBudget(
+      preset.systemPrompt,
+      sent,
+      draft,
+      budget,
+      this.settings.maxLengthRevisions,
+      send,
+      options.onRevise
+    );
+    const observation = pseudonymizer ? pseudonymizer.unmask(fitted.observation) : fitted.observation;
+    const lengthIssue = checkLengthBudget(observation, budget);
+
+    const record: ObservationRecord = {
+      studentId: activity.studentId,
+      studentName: activity.studentName,
+      activityContent: activity.activityContent,
+      observation: observation,
+      charCount: countChars(observation),
+      byteCount: countBytes(observation),
+      ...copyActivityExtras(activity),
+      provider: target.provider.id,
+      model: target.config.modelId,
+      history: [
+        createRecordVersion(observation, 'generated', {
+          provider: target.provider.id,
+          model: target.config.modelId,
+          presetId: preset.id,
+          instruction: options.instruction,
+        }),
+      ],
     };
+    if (lengthIssue) {
+      record.lengthIssue = lengthIssue;
+    }
+    return record;
+  }
 
-    new Setting(containerEl)
-      .setName('API 키')
-      .setDesc(`${this.getProviderName(this.plugin.settings.apiProvider)} API 키를 입력합니다.`)
-      .addText((text) =>
-        text
-          .setPlaceholder(apiKeyPlaceholders[this.plugin.settings.apiProvider] || 'API 키')
-          .setValue(this.plugin.settings.apiKey)
-          .onChange(async (value) => {
-            this.plugin.settings.apiKey = value;
-            await this.plugin.saveSettings();
-          })
-      );
-
-    // 모델 ID (드롭다운)
-    const currentProvider = this.plugin.settings.apiProvider;
-    const models = MODEL_OPTIONS[currentProvider] || [];
-
-    new Setting(containerEl)
-      .setName('모델')
-      .setDesc(`${this.getProviderName(currentProvider)}에서 사용할 AI 모델을 선택합니다.`)
-      .addDropdown((dropdown) => {
-        this.modelDropdown = dropdown;
-        for (const model of models) {
-          dropdown.addOption(model.id, model.name);
-        }
-        // 현재 설정된 모델이 목록에 있는지 확인
-        const modelExists = models.some(m => m.id === this.plugin.settings.modelId);
-        if (modelExists) {
-          dropdown.setValue(this.plugin.settings.modelId);
-        } else {
-          // 목록에 없으면 기본 모델로 설정
-          dropdown.setValue(DEFAULT_MODELS[currentProvider]);
-          this.plugin.settings.modelId = DEFAULT_MODELS[currentProvider];
-          this.plugin.saveSettings();
-        }
-        dropdown.onChange(async (value) => {
-          this.plugin.settings.modelId = value;
-          await this.plugin.saveSettings();
+  /**
+   * 학생 한 명의 후보를 온도와 강조점을 바꿔 가며 여러 개 생성
+   * - 일부 후보가 실패해도 하나라도 생성되면 성공
+   * - 자동 순위를 켜면 점수가 가장 좋은 후보를, 끄면 첫 후보를 기록으로 사용
+   */
+  async generateCandidates(
+    activity: StudentActivity,
+    context: GenerationContext,
+    senders: ModelSender[],
+    count: number,
+    options: {
+      instruction?: string;
+      pseudonymizer?: Pseudonymizer | null;
+      onCandidate?: (index: number) => void;
+      onCandidateFailed?: (index: number) => void;
+      onRevise?: (attempt: number) => void;
+      onFallback?: (target: ProviderTarget) => void;
+    } = {}
+  ): Promise<ObservationRecord> {
+    const candidates: RecordCandidate[] = [];
+    let lastError: unknown = null;
+    for (let i = 0; i < count; i++) {
+      const variant = CANDIDATE_VARIANTS[i % CANDIDATE_VARIANTS.length];
+      options.onCandidate?.(i);
+      try {
+        const record = await this.generateRecord(activity, context, senders, {
+          ...options,
+          instruction: [options.instruction, variant.emphasis].filter(Boolean).join('\n') || undefined,
+          temperature: variant.temperature,
         });
-      });
+        candidates.push({
+          label: variant.label,
+          temperature: variant.temperature,
+          score: scoreCandidate(record, context.budget),
+          record,
+        });
+      } catch (error) {
+        // 키 오류는 다른 후보도 똑같이 실패하므로 바로 넘김
+        if (error instanceof BatchCancelledError || isAuthError(error)) throw error;
+        options.onCandidateFailed?.(i);
+        lastError = error;
+      }
+    }
+    if (candidates.length === 0) throw lastError;
 
-    // 기본 글자 수
-    new Setting(containerEl)
-      .setName('기본 목표 글자 수')
-      .setDesc('교사관찰기록의 기본 목표 글자 수를 설정합니다.')
-      .addText((text) => {
-        text
-          .setPlaceholder('500')
-          .setValue(String(this.plugin.settings.targetCharCount))
-          .onChange(async (value) => {
-            const num = parseInt(value);
-            if (!isNaN(num) && num > 0) {
-              this.plugin.settings.targetCharCount = num;
-              await this.plugin.saveSettings();
-            }
-          });
-        text.inputEl.type = 'number';
-      });
+    const ordered = this.settings.autoRankCandidates ? rankCandidates(candidates) : candidates;
+    return ordered.length > 1 ? selectCandidate(ordered[0], ordered) : ordered[0].record;
+  }
 
-    // 출력 폴더
-    new Setting(containerEl)
-      .setName('결과 저장 폴더')
-      .setDesc('변환 결과를 저장할 폴더 경로 (비워두면 Vault 루트에 저장)')
-      .addText((text) =>
-        text
-          .setPlaceholder('교사관찰기록')
-          .setValue(this.plugin.settings.outputFolder)
-          .onChange(async (value) => {
-            this.plugin.settings.outputFolder = value;
-            await this.plugin.saveSettings();
-          })
-      );
+  /**
+   * 한 학생만 다시 생성 (현재 제공자 설정 사용, 이전 기록의 이력을 이어감)
+   */
+  async regenerateRecord(
+    record: ObservationRecord,
+    context: GenerationContext,
+    instruction?: string,
+    roster: StudentActivity[] = [record]
+  ): Promise<ObservationRecord> {
+    const chain = this.getProviderChain();
+    if (chain.length === 0) {
+      throw new Error(`지원하지 않는 AI 제공자: ${this.settings.apiProvider}`);
+    }
+    const limiter = new RateLimiter(this.settings.requestsPerMinute);
+    const senders = chain.map((target) => ({ target, send: this.createSender(target, limiter) }));
+    const regenerated = await this.generateRecord(
+      {
+        studentId: record.studentId,
+        studentName: record.studentName,
+        activityContent: record.activityContent,
+        ...copyActivityExtras(record),
+      },
+      context,
+      senders,
+      { instruction, pseudonymizer: this.createPseudonymizer(roster) }
+    );
+    return carryHistory(record, regenerated);
+  }
 
-    // NEIS 글자수/바이트수 안내
-    containerEl.createEl('h2', { text: 'NEIS 글자수/바이트수 계산 기준' });
-    const infoDiv = containerEl.createDiv({ cls: 'student-activity-info' });
-    infoDiv.innerHTML = `
-      <ul>
-        <li><strong>글자 수</strong>: 모든 문자를 1개로 계산 (한글, 영문, 숫자, 공백, 특수문자)</li>
-        <li><strong>바이트 수</strong>:
-          <ul>
-            <li>한글, 한자: 3바이트</li>
-            <li>영문, 숫자, 특수문자, 공백, 줄바꿈: 1바이트</li>
-          </ul>
-        </li>
-      </ul>
-    `;
+  /**
+   * 가명처리 설정이 켜져 있으면 배치 전체 학생으로 가명처리기 생성
+   */
+  createPseudonymizer(activities: StudentActivity[]): Pseudonymizer | null {
+    return this.settings.pseudonymize ? new Pseudonymizer(activities) : null;
   }
-}
 
-// ==================== Main Plugin Class ====================
+  getAuditLogPath(): string {
+    const fileName = 'AI_전송기록.md';
+    return normalizePath(this.settings.outputFolder ? `${this.settings.outputFolder}/${fileName}` : fileName);
+  }
 
-export default class StudentActivityPlugin extends Plugin {
-  settings: StudentActivityPluginSettings;
+  /**
+   * AI 제공자에게 보내는 요청을 그대로 전송 기록 노트에 추가 (재시도 포함)
+   */
+  appendAuditLog(provider: AIProvider, config: ProviderConfig, request: CompletionRequest): Promise<void> {
+    if (!this.settings.auditLog) return Promise.resolve();
 
-  async onload(): Promise<void> {
-    console.log('Loading Student Activity to Observation Plugin');
+    const now = new Date();
+    const endpoint = provider.requiresBaseUrl ? `\n- 전송 주소: ${config.baseUrl}` : '';
+    const entry = `
+## ${now.toLocaleString('ko-KR')} · ${provider.vendor} · ${config.modelId}
 
-    await this.loadSettings();
+- 가명처리: ${this.settings.pseudonymize ? '적용' : '미적용'}${endpoint}
 
-    this.addSettingTab(new StudentActivitySettingTab(this.app, this));
+\`\`\`\`text
+[시스템 프롬프트]
+${request.systemPrompt}
 
-    // 커맨드: Modal 열기
-    this.addCommand({
-      id: 'open-conversion-modal',
-      name: '학생활동 → 교사관찰기록 변환 (Modal)',
-      callback: () => {
-        this.openConversionModal();
-      },
-    });
+[사용자 프롬프트]
+${request.userPrompt}
+\`\`\`\`
+`;
 
-    // 커맨드: 선택 영역에서 변환
-    this.addCommand({
-      id: 'convert-from-selection',
-      name: '선택 영역에서 교사관찰기록 변환',
-      editorCallback: (editor: Editor, view: MarkdownView) => {
-        const selection = editor.getSelection();
-        if (!selection.trim()) {
-          new Notice('텍스트를 선택해주세요.');
-          return;
+    this.auditWrite = this.auditWrite
+      .then(async () => {
+        const path = this.getAuditLogPath();
+        if (await this.app.vault.adapter.exists(path)) {
+          await this.app.vault.adapter.append(path, entry);
+        } else {
+          await this.ensureOutputFolder();
+          await this.app.vault.create(
+            path,
+            `# AI 전송 기록\n\n> AI 제공자에게 실제로 보낸 요청 내용입니다. 가명처리가 적용되었는지 확인할 수 있습니다.\n${entry}`
+          );
         }
-        this.processConversion(selection, this.settings.targetCharCount);
-      },
-    });
-
-    // 파일 메뉴 추가
-    this.registerEvent(
-      this.app.workspace.on('file-menu', (menu, file) => {
-        menu.addItem((item) => {
-          item
-            .setTitle('학생활동 → 교사관찰기록 변환')
-            .setIcon('file-text')
-            .onClick(() => {
-              this.openConversionModal();
-            });
-        });
       })
-    );
-  }
-
-  async onunload(): Promise<void> {
-    console.log('Unloading Student Activity to Observation Plugin');
+      .catch((error) => console.error('Failed to write audit log:', error));
+    return this.auditWrite;
   }
 
-  async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+  async ensureOutputFolder(): Promise<void> {
+    if (!this.settings.outputFolder) return;
+    // 폴더가 없으면 생성
+    const folder = this.app.vault.getAbstractFileByPath(this.settings.outputFolder);
+    if (!folder) {
+      await this.app.vault.createFolder(this.settings.outputFolder);
+    }
   }
 
-  async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+  promptRegenerateRow(file: TFile, rowIndex: number) {
+    if (!this.checkProviderSettings()) {
+      return;
+    }
+    new InstructionModal(this.app, '학생 교사관찰기록 다시 생성', (instruction) => {
+      this.regenerateResultRow(file, rowIndex, instruction);
+    }).open();
   }
 
-  openConversionModal() {
-    if (!this.settings.apiKey) {
-      new Notice('API 키를 설정해주세요. (설정 → 학생활동 → 교사관찰기록 변환)');
+  /**
+   * 결과 노트의 한 행을 다시 생성하고 테이블, 복사용 TSV, 통계를 갱신
+   */
+  async regenerateResultRow(file: TFile, rowIndex: number, instruction: string) {
+    const content = await this.app.vault.read(file);
+    const context = await this.getResultContext(content);
+    const roster = parseResultRecords(content, context.budget);
+    const target = roster[rowIndex];
+    if (!target) {
+      new Notice('결과 테이블에서 학생 행을 찾을 수 없습니다.');
       return;
     }
 
-    new InputModal(this.app, this, (data, charCount) => {
-      this.processConversion(data, charCount);
-    }).open();
-  }
+    new Notice(`${target.studentName} 학생의 교사관찰기록을 다시 생성합니다...`);
 
-  async processConversion(data: string, targetCharCount: number) {
-    const activities = parseTSV(data);
+    let regenerated: ObservationRecord;
+    try {
+      regenerated = await this.regenerateRecord(target, context, instruction || undefined, roster);
+    } catch (error) {
+      new Notice(`다시 생성 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+      return;
+    }
 
-    if (activities.length === 0) {
-      new Notice('변환할 데이터가 없습니다.');
+    // 생성하는 동안 노트가 바뀌었을 수 있으므로 다시 읽어서 같은 학생인지 확인
+    const latest = await this.app.vault.read(file);
+    const records = parseResultRecords(latest, context.budget);
+    const current = records[rowIndex];
+    if (!current || current.studentId !== target.studentId || current.studentName !== target.studentName) {
+      new Notice('생성 중 결과 테이블이 변경되어 반영하지 못했습니다. 다시 시도해주세요.');
       return;
     }
 
-    const progressModal = new ProgressModal(this.app);
-    progressModal.open();
+    // 생성하는 동안 노트에서 고친 내용도 이력에 남김
+    records[rowIndex] = carryHistory(current, { ...regenerated, history: regenerated.history?.slice(-1) });
+    await this.app.vault.modify(file, updateResultNoteContent(latest, records));
+    this.registerResultButtonHandlers();
 
-    const records: ObservationRecord[] = [];
-    let errorCount = 0;
+    new Notice(`${target.studentName} 학생의 교사관찰기록을 다시 생성했습니다.`);
+  }
 
-    for (let i = 0; i < activities.length; i++) {
-      const activity = activities[i];
-      progressModal.updateProgress(i + 1, activities.length, activity.studentName);
+  /**
+   * 결과 노트 한 행의 기록 이력 보기
+   */
+  async showRowHistory(file: TFile, rowIndex: number) {
+    const content = await this.app.vault.read(file);
+    const context = await this.getResultContext(content);
+    const record = parseResultRecords(content, context.budget)[rowIndex];
+    if (!record) {
+      new Notice('결과 테이블에서 학생 행을 찾을 수 없습니다.');
+      return;
+    }
 
-      try {
-        let observation: string;
-
-        switch (this.settings.apiProvider) {
-          case 'openai':
-            observation = await callOpenAI(
-              this.settings.apiKey,
-              this.settings.modelId || DEFAULT_MODELS.openai,
-              activity,
-              targetCharCount
-            );
-            break;
-          case 'claude':
-            observation = await callClaude(
-              this.settings.apiKey,
-              this.settings.modelId || DEFAULT_MODELS.claude,
-              activity,
-              targetCharCount
-            );
-            break;
-          case 'gemini':
-            observation = await callGemini(
-              this.settings.apiKey,
-              this.settings.modelId || DEFAULT_MODELS.gemini,
-              activity,
-              targetCharCount
-            );
-            break;
-          case 'grok':
-            observation = await callGrok(
-              this.settings.apiKey,
-              this.settings.modelId || DEFAULT_MODELS.grok,
-              activity,
-              targetCharCount
-            );
-            break;
-          default:
-            throw new Error(`지원하지 않는 AI 제공자: ${this.settings.apiProvider}`);
-        }
+    new HistoryModal(
+      this.app,
+      ensureCurrentVersion(record),
+      context.budget,
+      (id) => this.presets.find((p) => p.id === id)?.name || id,
+      (version) => this.restoreResultVersion(file, rowIndex, record, version)
+    ).open();
+  }
 
-        records.push({
-          studentId: activity.studentId,
-          studentName: activity.studentName,
-          activityContent: activity.activityContent,
-          observation: observation,
-          charCount: countChars(observation),
-          byteCount: countBytes(observation),
-        });
-      } catch (error) {
-        console.error(`Error processing ${activity.studentName}:`, error);
-        errorCount++;
-        records.push({
-          studentId: activity.studentId,
-          studentName: activity.studentName,
-          activityContent: activity.activityContent,
-          observation: `[변환 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}]`,
-          charCount: 0,
-          byteCount: 0,
-        });
-      }
+  /**
+   * 이력의 한 버전을 결과 노트의 현재 기록으로 되돌림 (복원도 새 버전으로 남김)
+   */
+  async restoreResultVersion(file: TFile, rowIndex: number, target: ObservationRecord, version: RecordVersion) {
+    const latest = await this.app.vault.read(file);
+    const context = await this.getResultContext(latest);
+    const records = parseResultRecords(latest, context.budget);
+    const current = records[rowIndex];
+    if (!current || current.studentId !== target.studentId || current.studentName !== target.studentName) {
+      new Notice('결과 테이블이 변경되어 복원하지 못했습니다. 다시 시도해주세요.');
+      return;
+    }
 
-      // API 호출 간 딜레이 (rate limit 방지)
-      if (i < activities.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
+    const observation = version.observation;
+    const restored: ObservationRecord = {
+      ...ensureCurrentVersion(current),
+      observation,
+      charCount: countChars(observation),
+      byteCount: countBytes(observation),
+    };
+    if (version.provider && version.model) {
+      restored.provider = version.provider;
+      restored.model = version.model;
+    }
+    delete restored.lengthIssue;
+    const lengthIssue = checkLengthBudget(observation, context.budget);
+    if (lengthIssue) {
+      restored.lengthIssue = lengthIssue;
     }
+    restored.history = [
+      ...(restored.history || []),
+      createRecordVersion(observation, 'restored', {
+        provider: version.provider,
+        model: version.model,
+        presetId: version.presetId,
+        instruction: version.instruction,
+      }),
+    ];
+
+    records[rowIndex] = restored;
+    await this.app.vault.modify(file, updateResultNoteContent(latest, records));
+    this.registerResultButtonHandlers();
+    new Notice(`${current.studentName} 학생의 교사관찰기록을 이전 버전으로 복원했습니다.`);
+  }
 
-    // 마지막 학생 완료 표시
-    progressModal.markLastStudentComplete();
-    progressModal.close();
+  getCheckpointPath(): string {
+    return normalizePath(`${this.manifest.dir}/checkpoint.json`);
+  }
 
-    // 결과 노트 생성
-    await this.createResultNote(records);
+  async loadCheckpoint(): Promise<ConversionCheckpoint | null> {
+    const path = this.getCheckpointPath();
+    if (!(await this.app.vault.adapter.exists(path))) {
+      return null;
+    }
+    try {
+      return JSON.parse(await this.app.vault.adapter.read(path)) as ConversionCheckpoint;
+    } catch (error) {
+      console.error('Failed to read checkpoint:', error);
+      return null;
+    }
+  }
 
-    if (errorCount > 0) {
-      new Notice(`변환 완료! (${records.length - errorCount}명 성공, ${errorCount}명 실패)`);
-    } else {
-      new Notice(`${records.length}명의 교사관찰기록 변환 완료!`);
+  /**
+   * 체크포인트 저장 (동시 처리 중 쓰기가 겹치지 않도록 순서대로 기록)
+   */
+  saveCheckpoint(checkpoint: ConversionCheckpoint): Promise<void> {
+    this.checkpointWrite = this.checkpointWrite
+      .then(async () => {
+        checkpoint.updatedAt = new Date().toISOString();
+        await this.app.vault.adapter.write(this.getCheckpointPath(), JSON.stringify(checkpoint));
+      })
+      .catch((error) => console.error('Failed to save checkpoint:', error));
+    return this.checkpointWrite;
+  }
+
+  async clearCheckpoint(): Promise<void> {
+    await this.checkpointWrite;
+    const path = this.getCheckpointPath();
+    if (await this.app.vault.adapter.exists(path)) {
+      await this.app.vault.adapter.remove(path);
     }
   }
 
-  async createResultNote(records: ObservationRecord[]) {
+  async createResultNote(records: ObservationRecord[], context: GenerationContext) {
     const now = new Date();
     const dateStr = now.toISOString().slice(0, 10);
     const timeStr = now.toTimeString().slice(0, 5).replace(':', '');
@@ -989,11 +7288,7 @@ export default class StudentActivityPlugin extends Plugin {
     let filePath = fileName;
 
     if (this.settings.outputFolder) {
-      // 폴더가 없으면 생성
-      const folder = this.app.vault.getAbstractFileByPath(this.settings.outputFolder);
-      if (!folder) {
-        await this.app.vault.createFolder(this.settings.outputFolder);
-      }
+      await this.ensureOutputFolder();
       filePath = `${this.settings.outputFolder}/${fileName}`;
     }
 
@@ -1005,6 +7300,8 @@ export default class StudentActivityPlugin extends Plugin {
 
 생성일시: ${now.toLocaleString('ko-KR')}
 총 인원: ${records.length}명
+${formatResultBudget(context.budget)}
+${formatResultPreset(context.preset)}
 
 ## 📋 구글 스프레드시트로 복사
 
@@ -1018,20 +7315,25 @@ export default class StudentActivityPlugin extends Plugin {
 > 위 버튼을 클릭하면 TSV 데이터가 클립보드에 복사됩니다.
 > 구글 스프레드시트에서 Ctrl+V로 붙여넣으면 열이 자동으로 구분됩니다.
 
+## 💾 파일로 내보내기
+
+<div class="student-activity-export-section">
+<button class="student-activity-export-btn" data-format="csv">CSV</button>
+<button class="student-activity-export-btn" data-format="xlsx">엑셀 (XLSX)</button>
+<button class="student-activity-export-btn" data-format="json">JSON</button>
+</div>
+
+> 이 노트와 같은 폴더에 같은 이름의 파일로 저장됩니다. (커맨드 팔레트: '결과 내보내기 (CSV, XLSX, JSON)')
+
 ---
 
 ## 결과 테이블
 
 ${generateMarkdownTable(records)}
 
-## 통계
-
-| 항목 | 값 |
-|------|-----|
-| 총 인원 | ${records.length}명 |
-| 평균 글자 수 | ${Math.round(records.reduce((sum, r) => sum + r.charCount, 0) / records.length)}자 |
-| 평균 바이트 수 | ${Math.round(records.reduce((sum, r) => sum + r.byteCount, 0) / records.length)} 바이트 |
-`;
+${generateStatisticsSection(records)}${generateSimilaritySection(records)}${formatResultDataBlock(
+      this.createResultData(records, context)
+    )}`;
 
     const file = await this.app.vault.create(filePath, content);
 
@@ -1039,13 +7341,26 @@ ${generateMarkdownTable(records)}
     const leaf = this.app.workspace.getLeaf(false);
     await leaf.openFile(file);
 
-    // 복사 버튼 이벤트 등록
-    this.registerCopyButtonHandler();
+    // 복사/내보내기 버튼 이벤트 등록
+    this.registerResultButtonHandlers();
   }
 
-  registerCopyButtonHandler() {
+  registerResultButtonHandlers() {
     // DOM이 준비될 때까지 약간의 딜레이
     setTimeout(() => {
+      const exportButtons = document.querySelectorAll('.student-activity-export-btn');
+      exportButtons.forEach((btn) => {
+        if (btn.hasAttribute('data-listener-attached')) return;
+        btn.setAttribute('data-listener-attached', 'true');
+
+        btn.addEventListener('click', async () => {
+          const format = btn.getAttribute('data-format') as ExportFormat | null;
+          const file = this.app.workspace.getActiveFile();
+          if (!format || !file) return;
+          await this.exportResults(file, [format]);
+        });
+      });
+
       const copyButtons = document.querySelectorAll('.student-activity-copy-btn');
       copyButtons.forEach((btn) => {
         if (btn.hasAttribute('data-listener-attached')) return;